@@ -1,59 +1,352 @@
-import React, { useState } from 'react';
-import { LayoutDashboard, MessageSquare, ShieldCheck, Settings, Bell, Search, PlusCircle, ArrowLeft, LogOut } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { LayoutDashboard, MessageSquare, ShieldCheck, Settings, Bell, PlusCircle, ArrowLeft, LogOut, FolderKanban } from 'lucide-react';
 import FileUpload from './components/FileUpload';
 import ComplianceReport from './components/ComplianceReport';
 import ChatInterface from './components/ChatInterface';
 import LandingPage from './components/LandingPage';
 import LoginPage from './components/LoginPage';
 import SignUpPage from './components/SignUpPage';
-import { AnalysisReport, ViewState } from './types';
-import { analyzeDrawingImage } from './services/geminiService';
+import AnalysisErrorView from './components/AnalysisErrorView';
+import ScanHistory from './components/ScanHistory';
+import ProjectList from './components/ProjectList';
+import ProjectDetail from './components/ProjectDetail';
+import RevisionDiffView from './components/RevisionDiffView';
+import DashboardTrends from './components/DashboardTrends';
+import RevisionTargetPicker from './components/RevisionTargetPicker';
+import ClauseViewer from './components/ClauseViewer';
+import RegulationSearch from './components/RegulationSearch';
+import BuildingMetadataForm from './components/BuildingMetadataForm';
+import { AnalysisError, AnalysisOptions, AnalysisReport, BuildingMetadata, ComplianceFinding, Drawing, DrawingSheet, Project, ReportSummary, Revision, UploadTarget, ViewState } from './types';
+import { analyzeDrawingSet } from './services/analysisService';
+import { createReportSaveQueue, deleteReport, getReport, listReportSummaries, saveReport } from './services/reportStore';
+import { createId } from './services/database';
+import {
+  addRevision, createDrawing, createProject, deleteRevision, drawingNameFromFileName, listDrawings, listProjects,
+  listRevisions, revisionLabelFromFileName, summarizeProjects
+} from './services/projectStore';
+import { computeDashboardStats } from './services/dashboardStats';
+import { ReportBundle } from './services/reportBundle';
+import { scoreReport } from './services/scoring';
+import { parseReference } from './services/referenceParser';
+import { isBuildingMetadataEmpty } from './services/buildingMetadata';
+
+interface PendingUpload {
+  file: File;
+  sheets: DrawingSheet[];
+  options: AnalysisOptions;
+  drawing: Drawing;
+  revisionLabel?: string;
+}
+
+const RECENT_SCANS_LIMIT = 5;
+
+// Progress bar fill, 0 when there is nothing to compare against
+const percentOf = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 100) : 0;
 
 const App: React.FC = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [userName, setUserName] = useState('');
   const [view, setView] = useState<ViewState>('landing');
   
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [analysisReport, setAnalysisReport] = useState<AnalysisReport | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<AnalysisError | null>(null);
+  const [lastUpload, setLastUpload] = useState<PendingUpload | null>(null);
   const [consultContext, setConsultContext] = useState<string | undefined>(undefined);
+  const [viewedReference, setViewedReference] = useState<string | null>(null);
+  const [focusFinding, setFocusFinding] = useState<{ findingId: string; requestedAt: number } | undefined>(undefined);
+
+  // Scan history persisted in IndexedDB
+  const [history, setHistory] = useState<ReportSummary[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  const refreshHistory = async () => {
+    try {
+      setHistory(await listReportSummaries());
+      setHistoryError(null);
+    } catch (error) {
+      console.error("Could not load scan history", error);
+      setHistoryError(error instanceof Error ? error.message : "Scan history could not be loaded.");
+    }
+  };
+
+  // Projects, drawings and revisions are small; they are loaded whole
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [drawings, setDrawings] = useState<Drawing[]>([]);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [uploadTarget, setUploadTarget] = useState<UploadTarget>({});
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Kept between uploads: revisions of the same building usually share it
+  const [buildingMetadata, setBuildingMetadata] = useState<BuildingMetadata>({});
+  const [diffPair, setDiffPair] = useState<{ base: AnalysisReport; target: AnalysisReport } | null>(null);
+  const projectStatuses = summarizeProjects(projects, drawings, revisions, history);
+  const activeProject = projects.find(p => p.id === activeProjectId);
+  const dashboardStats = computeDashboardStats(history, revisions);
+
+  const refreshProjects = async () => {
+    try {
+      const [p, d, r] = await Promise.all([listProjects(), listDrawings(), listRevisions()]);
+      setProjects(p);
+      setDrawings(d);
+      setRevisions(r);
+    } catch (error) {
+      console.error("Could not load projects", error);
+      setHistoryError(error instanceof Error ? error.message : "Projects could not be loaded.");
+    }
+  };
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshHistory();
+      refreshProjects();
+    }
+  }, [isAuthenticated]);
+
+  const openProject = (projectId: string) => {
+    setActiveProjectId(projectId);
+    setView('project');
+  };
+
+  const handleCreateProject = async (name: string, location?: string) => {
+    try {
+      const project = await createProject(name, location);
+      await refreshProjects();
+      openProject(project.id);
+    } catch (error) {
+      console.error("Could not create project", error);
+      setHistoryError("The project could not be created.");
+    }
+  };
+
+  const startUpload = (target: UploadTarget = {}) => {
+    setUploadTarget(target);
+    setUploadError(null);
+    setAnalysisReport(null);
+    setAnalysisError(null);
+    setView('upload');
+  };
+
+  // Creates the project and drawing named in the upload target, if they are new
+  const resolveUploadDrawing = async (target: UploadTarget, fileName: string): Promise<Drawing | null> => {
+    let projectId = target.projectId;
+    if (!projectId) {
+      if (!target.newProjectName?.trim()) return null;
+      projectId = (await createProject(target.newProjectName)).id;
+    }
+    const existing = target.drawingId && drawings.find(d => d.id === target.drawingId);
+    return existing || createDrawing(projectId, target.newDrawingName?.trim() || drawingNameFromFileName(fileName));
+  };
+
+  // A report that cannot be saved is still shown; it just won't appear in history. Returns null on failure.
+  const persistReport = async (report: AnalysisReport): Promise<AnalysisReport | null> => {
+    try {
+      const saved = await saveReport(report);
+      await refreshHistory();
+      return saved;
+    } catch (error) {
+      console.error("Could not save report to scan history", error);
+      setHistoryError(error instanceof Error ? error.message : "The report could not be saved.");
+      return null;
+    }
+  };
+
+  // Edits arrive faster than full-report writes finish; the queue keeps them in order
+  const [queueReportSave] = useState(() => createReportSaveQueue(
+    () => { refreshHistory(); },
+    (error) => {
+      console.error("Could not save report changes", error);
+      setHistoryError(error instanceof Error ? error.message : "The report changes could not be saved.");
+    }
+  ));
+
+  const handleUpdateReport = (update: AnalysisReport) => {
+    // Locally scored reports follow their findings; model-scored ones keep their number until rescored
+    const report = update.scoringConfig ? scoreReport(update) : update;
+    setAnalysisReport(report);
+    if (report.id) queueReportSave({ ...report, id: report.id });
+  };
+
+  const handleOpenReport = async (id: string) => {
+    try {
+      const report = await getReport(id);
+      if (!report) {
+        await refreshHistory();
+        return;
+      }
+      setAnalysisError(null);
+      setAnalysisReport(report);
+      setView('report');
+    } catch (error) {
+      console.error("Could not open saved report", error);
+      setHistoryError("The saved report could not be opened.");
+    }
+  };
+
+  // Shared bundles are kept in scan history so review changes persist, but are not filed under a project
+  const handleImportBundle = async (bundle: ReportBundle) => {
+    setUploadError(null);
+    try {
+      const report = await saveReport(bundle.report);
+      setAnalysisError(null);
+      setAnalysisReport(report);
+      setView('report');
+      await refreshHistory();
+    } catch (error) {
+      console.error("Could not save imported report", error);
+      setUploadError("The report bundle could not be saved to scan history.");
+    }
+  };
+
+  const handleCompareRevisions = async (baseReportId: string, targetReportId: string) => {
+    try {
+      const [base, target] = await Promise.all([getReport(baseReportId), getReport(targetReportId)]);
+      if (!base || !target) {
+        await refreshHistory();
+        return;
+      }
+      setDiffPair({ base, target });
+      setView('diff');
+    } catch (error) {
+      console.error("Could not load revisions for comparison", error);
+      setHistoryError("The revisions could not be compared.");
+    }
+  };
 
-  // Recent activity mock
-  const recentFiles = [
-    { name: 'Al-Malqa_Villa_Rev03.dwg', date: '2 hrs ago', status: 'Passed' },
-    { name: 'KAFD_Office_Block_B.ifc', date: '5 hrs ago', status: 'Warnings' },
-    { name: 'Riyadh_Metro_Station_4.rvt', date: '1 day ago', status: 'Failed' },
-  ];
+  const handleDeleteReport = async (id: string) => {
+    const summary = history.find(h => h.id === id);
+    if (!window.confirm(`Delete the scan of ${summary?.fileName || 'this drawing'}? This cannot be undone.`)) return;
+    try {
+      await deleteReport(id);
+      if (summary?.revisionId) await deleteRevision(summary.revisionId);
+      if (analysisReport?.id === id) setAnalysisReport(null);
+      await Promise.all([refreshHistory(), refreshProjects()]);
+    } catch (error) {
+      console.error("Could not delete report", error);
+      setHistoryError("The scan could not be deleted.");
+    }
+  };
 
-  const handleFileUpload = async (file: File, base64: string) => {
+  const runAnalysis = async (upload: PendingUpload) => {
+    const { file, sheets, options, drawing } = upload;
     setIsAnalyzing(true);
+    setAnalysisError(null);
+    setAnalysisReport(null);
+    setLastUpload(upload);
     // Move to report view immediately to show loading state nicely
     setView('report'); 
     
     try {
-      const report = await analyzeDrawingImage(base64, file.name);
-      setAnalysisReport(report);
-    } catch (error) {
-      console.error("Failed to analyze", error);
-      // In production, handle error state specifically
+      const outcome = await analyzeDrawingSet(sheets, file.name, options);
+      if ('error' in outcome) {
+        // A failed scan must never be shown (or exported) as a compliance report
+        setAnalysisError(outcome.error);
+      } else {
+        // The revision is recorded first so the report is written once, already linked to it
+        const reportId = createId('r');
+        let revision: Revision | undefined;
+        try {
+          revision = await addRevision(drawing, reportId, file.name, upload.revisionLabel);
+        } catch (error) {
+          console.error("Could not record the revision", error);
+        }
+        const report: AnalysisReport = {
+          ...outcome.report,
+          projectId: drawing.projectId,
+          drawingId: drawing.id,
+          revisionId: revision?.id,
+          revisionLabel: revision?.label
+        };
+        const saved = await persistReport({ ...report, id: reportId });
+        if (saved === null) {
+          // Unsaved reports are still shown, so drop the revision that would point at nothing
+          if (revision) await deleteRevision(revision.id).catch(error => console.error("Could not remove the revision", error));
+          setAnalysisReport({ ...report, revisionId: undefined, revisionLabel: undefined });
+        } else {
+          setAnalysisReport(saved);
+        }
+        if (revision) await refreshProjects();
+      }
     } finally {
       setIsAnalyzing(false);
     }
   };
 
+  const handleFileUpload = async (file: File, sheets: DrawingSheet[], options: AnalysisOptions = {}) => {
+    setUploadError(null);
+    let drawing: Drawing | null;
+    try {
+      drawing = await resolveUploadDrawing(uploadTarget, file.name);
+    } catch (error) {
+      console.error("Could not create the project or drawing", error);
+      setUploadError("The project or drawing could not be created.");
+      return;
+    }
+    if (!drawing) {
+      setUploadError("Choose a project or enter a name for the new one.");
+      return;
+    }
+    await refreshProjects();
+    const revisionLabel = uploadTarget.revisionLabel?.trim() || revisionLabelFromFileName(file.name);
+    // The next upload defaults to a new revision of the same drawing
+    setUploadTarget({ projectId: drawing.projectId, drawingId: drawing.id });
+    const building = isBuildingMetadataEmpty(buildingMetadata) ? undefined : buildingMetadata;
+    await runAnalysis({ file, sheets, options: { ...options, building }, drawing, revisionLabel });
+  };
+
+  const handleRetry = () => {
+    if (lastUpload) runAnalysis(lastUpload);
+  };
+
   const handleConsult = (context: string) => {
     setConsultContext(context);
     setIsChatOpen(true);
   };
 
-  const handleLogin = () => {
+  const handleSelectCitingFinding = (finding: ComplianceFinding) => {
+    setView('report');
+    setFocusFinding({ findingId: finding.id, requestedAt: Date.now() });
+  };
+
+  // Opens a saved report at its first finding citing the clause
+  const handleOpenCitingReport = async (reportId: string, clauseId: string) => {
+    try {
+      const report = await getReport(reportId);
+      if (!report) {
+        await refreshHistory();
+        return;
+      }
+      setAnalysisError(null);
+      setAnalysisReport(report);
+      setView('report');
+      const finding = report.findings.find(f => parseReference(f.reference)?.id === clauseId);
+      if (finding) setFocusFinding({ findingId: finding.id, requestedAt: Date.now() });
+    } catch (error) {
+      console.error("Could not open saved report", error);
+      setHistoryError("The saved report could not be opened.");
+    }
+  };
+
+  const handleLogin = (name: string) => {
+    setUserName(name);
     setIsAuthenticated(true);
     setView('dashboard');
   };
 
   const handleLogout = () => {
     setIsAuthenticated(false);
+    setUserName('');
     setAnalysisReport(null);
+    setHistory([]);
+    setProjects([]);
+    setDrawings([]);
+    setRevisions([]);
+    setActiveProjectId(null);
+    setAnalysisError(null);
+    setLastUpload(null);
+    setViewedReference(null);
+    setBuildingMetadata({});
     setView('landing');
   };
 
@@ -96,25 +389,35 @@ const App: React.FC = () => {
           <SidebarItem 
             icon={LayoutDashboard} 
             label="Dashboard" 
-            active={view === 'dashboard' || view === 'upload'} 
+            active={view === 'dashboard' || view === 'upload' || view === 'history'} 
             onClick={() => setView('dashboard')}
           />
           <SidebarItem 
             icon={PlusCircle} 
             label="New Analysis" 
             active={false} 
-            onClick={() => { setView('upload'); setAnalysisReport(null); }}
+            onClick={() => startUpload(activeProjectId ? { projectId: activeProjectId } : {})}
+          />
+          <SidebarItem 
+            icon={FolderKanban} 
+            label="Projects" 
+            active={view === 'projects' || view === 'project' || view === 'diff'} 
+            onClick={() => setView('projects')}
           />
           <div className="pt-4 pb-2">
             <p className="px-4 text-xs font-semibold text-slate-500 uppercase tracking-wider">Reports</p>
           </div>
-          {analysisReport && (
+          {history.map(item => (
             <SidebarItem 
+              key={item.id}
               icon={ShieldCheck} 
-              label={analysisReport.fileName.length > 15 ? analysisReport.fileName.substring(0,15) + '...' : analysisReport.fileName}
-              active={view === 'report'} 
-              onClick={() => setView('report')}
+              label={item.fileName.length > 15 ? item.fileName.substring(0,15) + '...' : item.fileName}
+              active={view === 'report' && analysisReport?.id === item.id} 
+              onClick={() => handleOpenReport(item.id)}
             />
+          ))}
+          {history.length === 0 && (
+            <p className="px-4 text-xs text-slate-600">No saved reports yet</p>
           )}
         </nav>
 
@@ -140,14 +443,7 @@ const App: React.FC = () => {
                  <ArrowLeft className="w-5 h-5" />
                </button>
              )}
-             <div className="relative w-full">
-               <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-               <input 
-                  type="text" 
-                  placeholder="Search regulations (e.g. SBC 201 exit width)" 
-                  className="w-full pl-10 pr-4 py-2 bg-slate-100 border-none rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
-               />
-             </div>
+             <RegulationSearch reports={history} onOpenClause={setViewedReference} onOpenCitingReport={handleOpenCitingReport} />
            </div>
            
            <div className="flex items-center gap-4">
@@ -172,7 +468,7 @@ const App: React.FC = () => {
                   <p className="text-slate-500 mt-1">Here is what's happening with your compliance reviews.</p>
                 </div>
                 <button 
-                  onClick={() => setView('upload')}
+                  onClick={() => startUpload()}
                   className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-lg font-medium shadow-md shadow-blue-200 transition-all flex items-center gap-2"
                 >
                   <PlusCircle className="w-5 h-5" /> Start New Scan
@@ -183,65 +479,110 @@ const App: React.FC = () => {
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
                    <p className="text-slate-500 text-sm font-medium">Pending Reviews</p>
-                   <h3 className="text-3xl font-bold text-slate-900 mt-2">4</h3>
+                   <h3 className="text-3xl font-bold text-slate-900 mt-2">{dashboardStats.pendingReviews}</h3>
                    <div className="mt-4 h-1.5 w-full bg-slate-100 rounded-full overflow-hidden">
-                     <div className="h-full bg-orange-400 w-[60%]"></div>
+                     <div className="h-full bg-orange-400" style={{ width: `${percentOf(dashboardStats.pendingReviews, dashboardStats.openFindings)}%` }}></div>
                    </div>
                 </div>
                 <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
                    <p className="text-slate-500 text-sm font-medium">Compliance Rate</p>
-                   <h3 className="text-3xl font-bold text-slate-900 mt-2">87%</h3>
+                   <h3 className="text-3xl font-bold text-slate-900 mt-2">{dashboardStats.complianceRate !== undefined ? `${dashboardStats.complianceRate}%` : '–'}</h3>
                     <div className="mt-4 h-1.5 w-full bg-slate-100 rounded-full overflow-hidden">
-                     <div className="h-full bg-green-500 w-[87%]"></div>
+                     <div className="h-full bg-green-500" style={{ width: `${dashboardStats.complianceRate ?? 0}%` }}></div>
                    </div>
                 </div>
                 <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
                    <p className="text-slate-500 text-sm font-medium">Critical Issues</p>
-                   <h3 className="text-3xl font-bold text-slate-900 mt-2">12</h3>
+                   <h3 className="text-3xl font-bold text-slate-900 mt-2">{dashboardStats.criticalIssues}</h3>
                     <div className="mt-4 h-1.5 w-full bg-slate-100 rounded-full overflow-hidden">
-                     <div className="h-full bg-red-500 w-[30%]"></div>
+                     <div className="h-full bg-red-500" style={{ width: `${percentOf(dashboardStats.criticalIssues, dashboardStats.openFindings)}%` }}></div>
                    </div>
                 </div>
               </div>
+              <p className="-mt-4 text-xs text-slate-400">
+                Based on the latest revision of each drawing ({dashboardStats.scanCount} scan{dashboardStats.scanCount === 1 ? '' : 's'}).
+              </p>
+
+              <DashboardTrends reports={history} revisions={revisions} projects={projects} />
+
+              {/* Projects */}
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <h3 className="font-semibold text-slate-900">Projects</h3>
+                  <button onClick={() => setView('projects')} className="text-sm text-blue-600 hover:text-blue-800 font-medium">All Projects</button>
+                </div>
+                <ProjectList statuses={projectStatuses} onOpen={openProject} />
+              </div>
 
               {/* Recent Files */}
               <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
                 <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center">
                   <h3 className="font-semibold text-slate-900">Recent Scans</h3>
-                  <button className="text-sm text-blue-600 hover:text-blue-800 font-medium">View All</button>
-                </div>
-                <div className="divide-y divide-slate-100">
-                  {recentFiles.map((file, i) => (
-                    <div key={i} className="px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors">
-                      <div className="flex items-center gap-3">
-                        <div className="p-2 bg-slate-100 rounded-lg text-slate-500">
-                          <ShieldCheck className="w-5 h-5" />
-                        </div>
-                        <div>
-                          <p className="font-medium text-slate-900">{file.name}</p>
-                          <p className="text-xs text-slate-500">{file.date}</p>
-                        </div>
-                      </div>
-                      <span className={`px-3 py-1 rounded-full text-xs font-medium 
-                        ${file.status === 'Passed' ? 'bg-green-100 text-green-700' : 
-                          file.status === 'Failed' ? 'bg-red-100 text-red-700' : 
-                          'bg-orange-100 text-orange-700'}`}>
-                        {file.status}
-                      </span>
-                    </div>
-                  ))}
+                  <button onClick={() => setView('history')} className="text-sm text-blue-600 hover:text-blue-800 font-medium">View All</button>
                 </div>
+                {historyError && <p className="px-6 py-3 text-xs text-red-600 bg-red-50">{historyError}</p>}
+                <ScanHistory reports={history.slice(0, RECENT_SCANS_LIMIT)} onOpen={handleOpenReport} />
+              </div>
+            </div>
+          )}
+
+          {view === 'history' && (
+            <div className="max-w-6xl mx-auto space-y-6 animate-fadeIn">
+              <div>
+                <h2 className="text-2xl font-bold text-slate-900">Scan History</h2>
+                <p className="text-slate-500 mt-1">{history.length} saved report{history.length === 1 ? '' : 's'}, stored in this browser.</p>
+              </div>
+              <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+                {historyError && <p className="px-6 py-3 text-xs text-red-600 bg-red-50">{historyError}</p>}
+                <ScanHistory reports={history} onOpen={handleOpenReport} onDelete={handleDeleteReport} />
               </div>
             </div>
           )}
 
+          {view === 'projects' && (
+            <div className="max-w-6xl mx-auto space-y-6 animate-fadeIn">
+              <div>
+                <h2 className="text-2xl font-bold text-slate-900">Projects</h2>
+                <p className="text-slate-500 mt-1">Latest compliance state of every drawing, grouped by project.</p>
+              </div>
+              {historyError && <p className="text-xs text-red-600">{historyError}</p>}
+              <ProjectList statuses={projectStatuses} onOpen={openProject} onCreate={handleCreateProject} />
+            </div>
+          )}
+
+          {view === 'project' && activeProject && (
+            <ProjectDetail
+              project={activeProject}
+              status={projectStatuses.find(s => s.project.id === activeProject.id)}
+              drawings={drawings.filter(d => d.projectId === activeProject.id)}
+              revisions={revisions.filter(r => r.projectId === activeProject.id)}
+              reports={history}
+              onOpenReport={handleOpenReport}
+              onUploadRevision={(drawingId) => startUpload({ projectId: activeProject.id, drawingId })}
+              onCompare={handleCompareRevisions}
+            />
+          )}
+
+          {view === 'diff' && diffPair && (
+            <RevisionDiffView base={diffPair.base} target={diffPair.target} onOpenReport={handleOpenReport} />
+          )}
+
           {view === 'upload' && (
              <div className="max-w-4xl mx-auto py-10 animate-fadeIn">
                 <div className="text-center mb-8">
                   <h2 className="text-3xl font-bold text-slate-900">Upload Design Drawing</h2>
                   <p className="text-slate-500 mt-2">Upload your floor plan or engineering drawing to check for SBC compliance.</p>
                 </div>
-                <FileUpload onUpload={handleFileUpload} isAnalyzing={false} />
+                <RevisionTargetPicker
+                  projects={projects}
+                  drawings={drawings}
+                  revisions={revisions}
+                  value={uploadTarget}
+                  onChange={setUploadTarget}
+                  error={uploadError}
+                />
+                <BuildingMetadataForm value={buildingMetadata} onChange={setBuildingMetadata} />
+                <FileUpload onUpload={handleFileUpload} isAnalyzing={false} onImportBundle={handleImportBundle} />
              </div>
           )}
 
@@ -257,11 +598,23 @@ const App: React.FC = () => {
                     <h2 className="text-xl font-bold text-slate-900">Analyzing Compliance Model...</h2>
                     <p className="text-slate-500 mt-2">Checking egress paths, room dimensions, and fire safety codes.</p>
                  </div>
+              ) : analysisError ? (
+                <AnalysisErrorView
+                  error={analysisError}
+                  fileName={lastUpload?.file.name}
+                  onRetry={handleRetry}
+                  onNewUpload={() => startUpload(uploadTarget)}
+                />
               ) : (
                 analysisReport && (
                   <ComplianceReport 
+                    key={analysisReport.id ?? analysisReport.scanDate}
                     report={analysisReport} 
                     onConsult={handleConsult}
+                    onUpdateReport={handleUpdateReport}
+                    reviewer={userName}
+                    onOpenClause={setViewedReference}
+                    focusFinding={focusFinding}
                   />
                 )
               )}
@@ -288,8 +641,19 @@ const App: React.FC = () => {
           isOpen={isChatOpen} 
           onClose={() => { setIsChatOpen(false); setConsultContext(undefined); }} 
           initialMessage={consultContext}
+          onOpenClause={setViewedReference}
         />
 
+        {viewedReference && (
+          <ClauseViewer
+            reference={viewedReference}
+            findings={analysisReport?.findings}
+            onOpenClause={setViewedReference}
+            onSelectFinding={analysisReport ? handleSelectCitingFinding : undefined}
+            onClose={() => setViewedReference(null)}
+          />
+        )}
+
       </main>
     </div>
   );
@@ -0,0 +1,56 @@
+import React from 'react';
+import { AlertOctagon, WifiOff, Clock, ImageOff, FileWarning, RotateCcw, Upload } from 'lucide-react';
+import { AnalysisError, AnalysisErrorKind } from '../types';
+
+interface AnalysisErrorViewProps {
+  error: AnalysisError;
+  fileName?: string;
+  onRetry: () => void;
+  onNewUpload: () => void;
+}
+
+const ERROR_DETAILS: Record<AnalysisErrorKind, { title: string; icon: React.ElementType }> = {
+  [AnalysisErrorKind.NETWORK]: { title: 'Connection Problem', icon: WifiOff },
+  [AnalysisErrorKind.QUOTA]: { title: 'Service Busy', icon: Clock },
+  [AnalysisErrorKind.INVALID_IMAGE]: { title: 'Drawing Could Not Be Read', icon: ImageOff },
+  [AnalysisErrorKind.PARSE]: { title: 'Unreadable Analysis Response', icon: FileWarning },
+  [AnalysisErrorKind.UNKNOWN]: { title: 'Analysis Failed', icon: AlertOctagon }
+};
+
+const AnalysisErrorView: React.FC<AnalysisErrorViewProps> = ({ error, fileName, onRetry, onNewUpload }) => {
+  const { title, icon: Icon } = ERROR_DETAILS[error.kind];
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full animate-fadeIn">
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 max-w-md w-full text-center">
+        <div className="mx-auto w-14 h-14 rounded-full bg-red-50 flex items-center justify-center mb-4">
+          <Icon className="w-7 h-7 text-red-500" />
+        </div>
+        <h2 className="text-xl font-bold text-slate-900">{title}</h2>
+        <p className="text-slate-500 mt-2 text-sm">{error.message}</p>
+
+        <div className="mt-4 text-xs text-slate-400 space-y-1">
+          {fileName && <p className="font-mono">{fileName}{error.sheetLabel ? ` · ${error.sheetLabel}` : ''}</p>}
+          <p>No report was produced. {error.attempts > 1 ? `Tried ${error.attempts} times.` : ''}</p>
+        </div>
+
+        <div className="mt-6 flex flex-col sm:flex-row gap-3 justify-center">
+          <button
+            onClick={onRetry}
+            className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-lg text-sm font-medium transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" /> Retry Analysis
+          </button>
+          <button
+            onClick={onNewUpload}
+            className="flex items-center justify-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-5 py-2.5 rounded-lg text-sm font-medium transition-colors"
+          >
+            <Upload className="w-4 h-4" /> Upload Another File
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisErrorView;
@@ -0,0 +1,136 @@
+import React from 'react';
+import { Building2 } from 'lucide-react';
+import { BuildingMetadata, ConstructionType, OccupancyGroup } from '../types';
+import { CONSTRUCTION_TYPES, OCCUPANCY_LABELS, OCCUPANCY_SUBGROUPS, formatOccupancy } from '../services/buildingMetadata';
+
+interface BuildingMetadataFormProps {
+  value: BuildingMetadata;
+  onChange: (building: BuildingMetadata) => void;
+}
+
+const UNKNOWN = '';
+
+// Empty inputs mean "not given", never zero
+const parseNumber = (text: string) => {
+  const value = parseFloat(text);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+// Stories are counted, so only whole numbers from 1 up
+const parseCount = (text: string) => {
+  const value = Number(text);
+  return Number.isInteger(value) && value >= 1 ? value : undefined;
+};
+
+const parseYesNo = (text: string) => text === UNKNOWN ? undefined : text === 'yes';
+const formatYesNo = (value?: boolean) => value === undefined ? UNKNOWN : value ? 'yes' : 'no';
+
+const BuildingMetadataForm: React.FC<BuildingMetadataFormProps> = ({ value, onChange }) => {
+  const set = <K extends keyof BuildingMetadata>(key: K, fieldValue: BuildingMetadata[K]) => onChange({ ...value, [key]: fieldValue });
+  const subgroups = value.occupancyGroup ? OCCUPANCY_SUBGROUPS[value.occupancyGroup] : undefined;
+
+  const inputClass = "w-full text-sm border border-slate-200 rounded-lg px-3 py-2 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="max-w-2xl mx-auto mt-4 bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+      <h4 className="font-semibold text-sm text-slate-900 flex items-center gap-1.5 mb-1">
+        <Building2 className="w-4 h-4 text-slate-500" /> Building information
+      </h4>
+      <p className="text-xs text-slate-500 mb-3">Optional. Occupancy and sprinklers change the egress limits the drawing is checked against.</p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="space-y-2 col-span-2">
+          <label className="text-xs font-medium text-slate-500">Occupancy group</label>
+          <select
+            value={value.occupancyGroup || UNKNOWN}
+            onChange={(e) => onChange({ ...value, occupancyGroup: (e.target.value || undefined) as OccupancyGroup | undefined, occupancySubgroup: undefined })}
+            className={inputClass}
+          >
+            <option value={UNKNOWN}>Not specified</option>
+            {(Object.keys(OCCUPANCY_LABELS) as OccupancyGroup[]).map(group => (
+              <option key={group} value={group}>{OCCUPANCY_LABELS[group]}</option>
+            ))}
+          </select>
+          {subgroups && (
+            <select
+              value={value.occupancySubgroup ?? UNKNOWN}
+              onChange={(e) => set('occupancySubgroup', e.target.value ? Number(e.target.value) : undefined)}
+              className={inputClass}
+            >
+              <option value={UNKNOWN}>Sub-group unknown (strictest limits)</option>
+              {subgroups.map(subgroup => (
+                <option key={subgroup} value={subgroup}>{formatOccupancy(value.occupancyGroup!, subgroup)}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="space-y-2 col-span-2">
+          <label className="text-xs font-medium text-slate-500">Construction type</label>
+          <select
+            value={value.constructionType || UNKNOWN}
+            onChange={(e) => set('constructionType', (e.target.value || undefined) as ConstructionType | undefined)}
+            className={inputClass}
+          >
+            <option value={UNKNOWN}>Not specified</option>
+            {CONSTRUCTION_TYPES.map(type => <option key={type} value={type}>Type {type}</option>)}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-slate-500">Stories</label>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={value.storyCount ?? ''}
+            onChange={(e) => set('storyCount', parseCount(e.target.value))}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-slate-500">Height (m)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={value.buildingHeight ?? ''}
+            onChange={(e) => set('buildingHeight', parseNumber(e.target.value))}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-slate-500">Gross area (m²)</label>
+          <input
+            type="number"
+            min={0}
+            value={value.grossArea ?? ''}
+            onChange={(e) => set('grossArea', parseNumber(e.target.value))}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-slate-500">Sprinklers</label>
+          <select value={formatYesNo(value.sprinklered)} onChange={(e) => set('sprinklered', parseYesNo(e.target.value))} className={inputClass}>
+            <option value={UNKNOWN}>Unknown</option>
+            <option value="yes">Fully sprinklered</option>
+            <option value="no">None</option>
+          </select>
+        </div>
+
+        <div className="space-y-2 col-span-2 md:col-span-1">
+          <label className="text-xs font-medium text-slate-500">Fire alarm</label>
+          <select value={formatYesNo(value.fireAlarm)} onChange={(e) => set('fireAlarm', parseYesNo(e.target.value))} className={inputClass}>
+            <option value={UNKNOWN}>Unknown</option>
+            <option value="yes">Installed</option>
+            <option value="no">None</option>
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BuildingMetadataForm;
@@ -1,15 +1,18 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2, Sparkles } from 'lucide-react';
+import { Send, Bot, User, Loader2, Sparkles, TriangleAlert } from 'lucide-react';
 import { ChatMessage } from '../types';
-import { sendChatMessage } from '../services/geminiService';
+import { sendChatMessage } from '../services/analysisService';
+import { getChatProvider } from '../services/analysisProvider';
+import { resolveReference, splitReferences } from '../services/clauseLibrary';
 
 interface ChatInterfaceProps {
   initialMessage?: string;
   isOpen: boolean;
   onClose: () => void;
+  onOpenClause?: (reference: string) => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialMessage, isOpen, onClose }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialMessage, isOpen, onClose, onOpenClause }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([
     {
       id: '1',
@@ -58,13 +61,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialMessage, isOpen, o
         parts: [{ text: m.text }]
       }));
 
-      const responseText = await sendChatMessage(history, text);
+      const answer = await sendChatMessage(history, text);
 
       const aiMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
         role: 'model',
-        text: responseText || "I apologize, I couldn't process that request.",
-        timestamp: new Date()
+        text: answer?.text || "I apologize, I couldn't process that request.",
+        timestamp: new Date(),
+        sourceIds: answer?.sourceIds,
+        isGrounded: answer ? answer.isGrounded : undefined
       };
       setMessages(prev => [...prev, aiMsg]);
     } catch (error) {
@@ -94,7 +99,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialMessage, isOpen, o
             <h3 className="font-semibold text-sm">SBC Consultant</h3>
             <div className="flex items-center gap-1.5">
               <span className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></span>
-              <span className="text-xs text-slate-300">Online</span>
+              <span className="text-xs text-slate-300">{getChatProvider().id === 'local' ? 'Offline demo' : 'Online'}</span>
             </div>
           </div>
         </div>
@@ -127,10 +132,29 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ initialMessage, isOpen, o
               >
                 {msg.text.split('\n').map((line, i) => (
                     <React.Fragment key={i}>
-                        {line}
+                        {msg.role === 'model' && onOpenClause
+                          ? splitReferences(line).map((segment, j) => segment.reference ? (
+                              <button
+                                key={j}
+                                onClick={() => onOpenClause(segment.text)}
+                                className={`underline decoration-dotted underline-offset-2 ${resolveReference(segment.text) ? 'text-blue-600 hover:text-blue-800' : 'text-amber-600 hover:text-amber-800'}`}
+                                title={resolveReference(segment.text) ? 'Open clause' : 'Not in the clause library'}
+                              >
+                                {segment.text}
+                              </button>
+                            ) : segment.text)
+                          : line}
                         {i < msg.text.split('\n').length - 1 && <br />}
                     </React.Fragment>
                 ))}
+                {msg.isGrounded === false && (
+                  <p className="flex items-start gap-1.5 mt-2 pt-2 border-t border-slate-100 text-xs text-amber-700">
+                    <TriangleAlert className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                    {msg.sourceIds && msg.sourceIds.length > 0
+                      ? 'This answer does not cite any of the SBC clauses found for your question. Verify it against the code.'
+                      : 'No SBC clause in the library matched your question, so this answer is not backed by a citation.'}
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,111 @@
+import React from 'react';
+import { BookOpen, X, ArrowUpRight, CornerDownRight, TriangleAlert } from 'lucide-react';
+import { ComplianceFinding, ComplianceStatus } from '../types';
+import { CLAUSE_LIBRARY_VERSION, SBC_CODE_TITLES } from '../services/sbcClauses';
+import { findingsCitingClause, getClause, relatedClauses, resolveReference } from '../services/clauseLibrary';
+
+interface ClauseViewerProps {
+  reference: string; // Free-text reference or clause ID
+  findings?: ComplianceFinding[]; // Findings of the open report, if any
+  onOpenClause: (reference: string) => void;
+  onSelectFinding?: (finding: ComplianceFinding) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ComplianceStatus, string> = {
+  [ComplianceStatus.FAIL]: 'bg-red-100 text-red-700',
+  [ComplianceStatus.WARNING]: 'bg-amber-100 text-amber-700',
+  [ComplianceStatus.NEEDS_CLARIFICATION]: 'bg-blue-100 text-blue-700',
+  [ComplianceStatus.PASS]: 'bg-green-100 text-green-700'
+};
+
+const ClauseViewer: React.FC<ClauseViewerProps> = ({ reference, findings = [], onOpenClause, onSelectFinding, onClose }) => {
+  const clause = getClause(reference) || resolveReference(reference);
+  const parent = clause?.parentId ? getClause(clause.parentId) : undefined;
+  const related = clause ? relatedClauses(clause) : [];
+  const citing = clause ? findingsCitingClause(findings, clause) : [];
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-full md:w-[420px] bg-white shadow-2xl border-l border-slate-200 z-[60] flex flex-col animate-fadeIn">
+      <div className="h-16 border-b border-slate-200 flex items-center justify-between px-6 flex-shrink-0">
+        <div className="flex items-center gap-2 text-slate-900">
+          <BookOpen className="w-5 h-5 text-blue-600" />
+          <h3 className="font-semibold text-sm">SBC Clause</h3>
+        </div>
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-md transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6 text-sm">
+        {!clause ? (
+          <div className="flex items-start gap-3 p-4 rounded-lg bg-amber-50 border border-amber-100 text-amber-800">
+            <TriangleAlert className="w-5 h-5 flex-shrink-0" />
+            <div>
+              <p className="font-medium">Unverified reference: "{reference}" is not in the clause library.</p>
+              <p className="text-xs mt-1 text-amber-700">Check the reference against the published code.</p>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div>
+              <p className="text-xs font-medium text-slate-500">{SBC_CODE_TITLES[clause.code] || `SBC ${clause.code}`}</p>
+              {parent && (
+                <button onClick={() => onOpenClause(parent.id)} className="flex items-center gap-1 text-xs text-slate-400 hover:text-blue-600 mt-1">
+                  <CornerDownRight className="w-3 h-3" /> Section {parent.number} {parent.title}
+                </button>
+              )}
+              <h2 className="text-lg font-bold text-slate-900 mt-2">{clause.number} {clause.title}</h2>
+              <p className="text-slate-700 leading-relaxed mt-3">{clause.text}</p>
+            </div>
+
+            {related.length > 0 && (
+              <section>
+                <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Related clauses</h4>
+                <div className="space-y-1">
+                  {related.map(c => (
+                    <button
+                      key={c.id}
+                      onClick={() => onOpenClause(c.id)}
+                      className="w-full flex items-center justify-between gap-2 text-left px-3 py-2 rounded-lg border border-slate-200 hover:border-blue-300 hover:bg-blue-50 transition-colors"
+                    >
+                      <span className="truncate"><span className="font-medium text-slate-900">SBC {c.code} - {c.number}</span> <span className="text-slate-500">{c.title}</span></span>
+                      <ArrowUpRight className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                    </button>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Findings citing this clause</h4>
+              {citing.length === 0 ? (
+                <p className="text-xs text-slate-400">{findings.length > 0 ? 'No findings in this report cite this clause.' : 'Open a report to see its findings here.'}</p>
+              ) : (
+                <div className="space-y-1">
+                  {citing.map(f => (
+                    <button
+                      key={f.id}
+                      onClick={() => onSelectFinding?.(f)}
+                      disabled={!onSelectFinding}
+                      className="w-full text-left px-3 py-2 rounded-lg border border-slate-200 hover:border-blue-300 hover:bg-blue-50 transition-colors disabled:hover:bg-white disabled:hover:border-slate-200"
+                    >
+                      <span className={`inline-block px-1.5 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider mr-2 ${STATUS_STYLES[f.status]}`}>{f.status}</span>
+                      <span className="text-slate-700">{f.description}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+
+      <p className="px-6 py-3 border-t border-slate-100 text-[10px] text-slate-400">
+        Clause library {CLAUSE_LIBRARY_VERSION}. Summaries for review; the published SBC governs.
+      </p>
+    </div>
+  );
+};
+
+export default ClauseViewer;
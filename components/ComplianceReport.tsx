@@ -1,13 +1,34 @@
 import React, { useMemo, useState, useRef, useEffect } from 'react';
-import { AnalysisReport, ComplianceFinding, ComplianceStatus } from '../types';
-import { AlertTriangle, CheckCircle2, XCircle, Info, FileText, ChevronRight, Download, List, Eye, EyeOff, Maximize2, Search, Filter, Layers, X, Loader2, Check, MessageSquare } from 'lucide-react';
+import { AnalysisReport, ComplianceFinding, ComplianceStatus, DrawingMeasurement, DrawingSheet, FindingSeverity, FindingSource, MeasuredValue, MeasurementKind, ReviewState, SheetCalibration } from '../types';
+import { AlertTriangle, CheckCircle2, XCircle, Info, FileText, ChevronRight, Download, List, Eye, EyeOff, Maximize2, Search, Filter, Layers, X, Loader2, Check, MessageSquare, Cpu, Sparkles, Wrench, Ruler, PencilRuler, Share2, HeartPulse, SquarePlus, UserRoundPen, Pencil, Move, TriangleAlert, Building2 } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import ScaleCalibrationPanel from './ScaleCalibrationPanel';
+import MeasurementPanel from './MeasurementPanel';
+import FindingReviewPanel, { ReviewBadge } from './FindingReviewPanel';
+import ScoreBreakdownPanel from './ScoreBreakdownPanel';
+import FindingForm, { FindingFields } from './FindingForm';
+import FindingEditPanel from './FindingEditPanel';
+import { toDataUrl } from '../services/imagePreprocessing';
+import { REVIEW_STATES, REVIEW_STATE_LABELS, isReviewClosed, reviewOf } from '../services/findingReview';
+import { BUNDLE_EXTENSION, downloadBundle } from '../services/reportBundle';
+import { scoreReport } from '../services/scoring';
+import { isUnverifiedReference } from '../services/clauseLibrary';
+import { createId } from '../services/database';
+import { describeBuilding } from '../services/buildingMetadata';
+import { compareReferences } from '../services/referenceParser';
+import { FIELD_LABELS, correctFinding, correctedFields, formatFieldValue, isCorrected } from '../services/findingCorrection';
+import { SEVERITY_LABELS, SEVERITY_ORDER, compareBySeverity, findingColor, severityOf } from '../services/severity';
+import { ImageSize, calibrateFromCadUnits, evaluateMeasurement, formatMeasurement, formatQuantity, isWithinLimit } from '../services/measurement';
 
 interface ComplianceReportProps {
   report: AnalysisReport;
   onConsult: (context: string) => void;
+  onUpdateReport?: (report: AnalysisReport) => void;
+  reviewer?: string; // Signed-in user, recorded on review changes and comments
+  onOpenClause?: (reference: string) => void;
+  focusFinding?: { findingId: string; requestedAt: number }; // Selects the finding each time a new request arrives
 }
 
 const StatusIcon = ({ status }: { status: ComplianceStatus }) => {
@@ -19,12 +40,59 @@ const StatusIcon = ({ status }: { status: ComplianceStatus }) => {
   }
 };
 
+const SourceBadge = ({ source }: { source?: FindingSource }) => (
+  source === FindingSource.REVIEWER ? (
+    <span className="inline-flex items-center gap-1 text-[10px] font-medium text-teal-700 bg-teal-50 px-1.5 py-0.5 rounded" title="Added by a reviewer">
+      <UserRoundPen className="w-3 h-3" /> Reviewer
+    </span>
+  ) : source === FindingSource.RULE_ENGINE ? (
+    <span className="inline-flex items-center gap-1 text-[10px] font-medium text-indigo-700 bg-indigo-50 px-1.5 py-0.5 rounded" title="Deterministic SBC rule check">
+      <Cpu className="w-3 h-3" /> Rule
+    </span>
+  ) : (
+    <span className="inline-flex items-center gap-1 text-[10px] font-medium text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded" title="AI analysis">
+      <Sparkles className="w-3 h-3" /> AI
+    </span>
+  )
+);
+
 type SortOption = 'SEVERITY' | 'REFERENCE' | 'CATEGORY';
 
-const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }) => {
+// Severity filter values; LIFE_SAFETY keeps only life-safety findings of any severity
+type SeverityFilter = FindingSeverity | 'LIFE_SAFETY' | 'ALL';
+
+const SEVERITY_BADGE_STYLES: Record<FindingSeverity, string> = {
+  [FindingSeverity.CRITICAL]: 'bg-red-700 text-white',
+  [FindingSeverity.MAJOR]: 'bg-red-50 text-red-700',
+  [FindingSeverity.MINOR]: 'bg-amber-50 text-amber-700',
+  [FindingSeverity.INFO]: 'bg-slate-100 text-slate-500'
+};
+
+const SeverityBadge = ({ finding }: { finding: ComplianceFinding }) => {
+  const severity = severityOf(finding);
+  return (
+    <>
+      {finding.status !== ComplianceStatus.PASS && (
+        <span className={`text-[10px] font-semibold px-1.5 py-0.5 rounded ${SEVERITY_BADGE_STYLES[severity]}`}>{SEVERITY_LABELS[severity]}</span>
+      )}
+      {finding.lifeSafety && (
+        <span className="inline-flex items-center gap-1 text-[10px] font-medium text-rose-700 bg-rose-50 px-1.5 py-0.5 rounded" title="Life-safety issue">
+          <HeartPulse className="w-3 h-3" /> Life safety
+        </span>
+      )}
+    </>
+  );
+};
+
+// What clicks on the drawing currently do: pick calibration points or place a measurement
+type PickMode = 'CALIBRATE' | MeasurementKind;
+
+const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult, onUpdateReport, reviewer = 'Reviewer', onOpenClause, focusFinding }) => {
   const [activeFindingId, setActiveFindingId] = useState<string | null>(null);
   const [hoveredFindingId, setHoveredFindingId] = useState<string | null>(null);
   const [filterStatus, setFilterStatus] = useState<ComplianceStatus | 'ALL'>('ALL');
+  const [filterReview, setFilterReview] = useState<ReviewState | 'ALL'>('ALL');
+  const [filterSeverity, setFilterSeverity] = useState<SeverityFilter>('ALL');
   const [searchText, setSearchText] = useState('');
   const [sortBy, setSortBy] = useState<SortOption>('SEVERITY');
   
@@ -39,6 +107,59 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
   const [isDrawingSearchExpanded, setIsDrawingSearchExpanded] = useState(false);
   const drawingSearchInputRef = useRef<HTMLInputElement>(null);
 
+  // Sheet State (multi-page drawing sets)
+  const [activeSheetIndex, setActiveSheetIndex] = useState(0);
+  const sheets = useMemo<DrawingSheet[]>(() => {
+    if (report.sheets && report.sheets.length > 0) return report.sheets;
+    return report.imageBase64 ? [{ index: 0, label: 'Sheet 1', imageBase64: report.imageBase64 }] : [];
+  }, [report.sheets, report.imageBase64]);
+  const activeSheet = sheets.find(s => s.index === activeSheetIndex) || sheets[0];
+  const isMultiSheet = sheets.length > 1;
+  const sheetLabel = (finding: ComplianceFinding) =>
+    sheets.find(s => s.index === (finding.sheetIndex ?? 0))?.label || 'Sheet 1';
+
+  // Scale State: natural image sizes are needed to turn normalized coordinates into pixels
+  const [imageSizes, setImageSizes] = useState<Record<number, ImageSize>>({});
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showMeasureTools, setShowMeasureTools] = useState(false);
+  const [pickMode, setPickMode] = useState<PickMode | null>(null);
+  const [pickedPoints, setPickedPoints] = useState<number[][]>([]);
+
+  // Manual Finding State: a reviewer drags a box, then describes the finding
+  const [isDrawingFinding, setIsDrawingFinding] = useState(false);
+  const [dragOrigin, setDragOrigin] = useState<number[] | null>(null);
+  const [draftBox, setDraftBox] = useState<number[] | null>(null); // [ymin, xmin, ymax, xmax]
+
+  // Box Adjustment State: moving or resizing an existing finding's box
+  const [adjustingBoxId, setAdjustingBoxId] = useState<string | null>(null);
+  const [adjustedBox, setAdjustedBox] = useState<number[] | null>(null);
+  const [boxDrag, setBoxDrag] = useState<{ handle: string; origin: number[]; startBox: number[] } | null>(null);
+  const activeImageSize = activeSheet ? imageSizes[activeSheet.index] : undefined;
+  const calibrationForSheet = (sheetIndex: number): SheetCalibration | undefined => {
+    const saved = report.calibrations?.find(c => c.sheetIndex === sheetIndex);
+    if (saved) return saved;
+    // CAD sheets are to scale out of the box
+    const sheet = sheets.find(s => s.index === sheetIndex);
+    if (sheet?.metersPerPixel !== undefined && imageSizes[sheetIndex]) {
+      return calibrateFromCadUnits(sheetIndex, sheet.metersPerPixel, imageSizes[sheetIndex]);
+    }
+    return undefined;
+  };
+  const activeCalibration = activeSheet ? calibrationForSheet(activeSheet.index) : undefined;
+  const measurements = report.measurements || [];
+  const sheetMeasurements = measurements.filter(m => m.sheetIndex === activeSheet?.index);
+
+  // Evidence measurements of a finding, formatted with its sheet's current scale
+  const describeEvidence = (finding: ComplianceFinding): string[] =>
+    (finding.evidenceIds || []).flatMap(id => {
+      const m = measurements.find(item => item.id === id);
+      const value = m && evaluateMeasurement(m, calibrationForSheet(m.sheetIndex));
+      return value ? [formatMeasurement(value)] : [];
+    });
+
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const diagnostics = report.diagnostics || [];
+
   // Export State
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
@@ -47,14 +168,17 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
     includeSummary: true,
     includeCharts: true, // Note: Charts in PDF is complex, we might just list stats or skip actual chart rendering for this version
     includeBoundingBoxes: false,
+    markCorrections: true, // Note human corrections alongside the analysis values they replaced
   });
-  const [exportCategories, setExportCategories] = useState<string[]>([]);
+  // Excluded rather than included, so categories added by reviewers are exported by default
+  const [excludedExportCategories, setExcludedExportCategories] = useState<string[]>([]);
   const [exportStatuses, setExportStatuses] = useState<ComplianceStatus[]>([
     ComplianceStatus.FAIL,
     ComplianceStatus.WARNING,
     ComplianceStatus.NEEDS_CLARIFICATION,
     ComplianceStatus.PASS
   ]);
+  const [exportReviewStates, setExportReviewStates] = useState<ReviewState[]>(REVIEW_STATES);
 
   const stats = {
     pass: report.findings.filter(f => f.status === ComplianceStatus.PASS).length,
@@ -74,13 +198,6 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
     return Array.from(new Set(report.findings.map(f => f.category || 'General'))).sort();
   }, [report.findings]);
 
-  // Initialize export categories when data loads
-  useEffect(() => {
-    if (allCategories.length > 0 && exportCategories.length === 0) {
-        setExportCategories(allCategories);
-    }
-  }, [allCategories]);
-
   // Close layer menu when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -113,8 +230,10 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
     });
   };
 
+  const allExportCategoriesSelected = allCategories.every(cat => !excludedExportCategories.includes(cat));
+
   const toggleExportCategory = (category: string) => {
-    setExportCategories(prev => 
+    setExcludedExportCategories(prev => 
       prev.includes(category) 
         ? prev.filter(c => c !== category) 
         : [...prev, category]
@@ -129,6 +248,14 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
     );
   };
 
+  const toggleExportReviewState = (state: ReviewState) => {
+    setExportReviewStates(prev =>
+      prev.includes(state)
+        ? prev.filter(s => s !== state)
+        : [...prev, state]
+    );
+  };
+
   const handleDownload = () => {
     setIsDownloading(true);
 
@@ -157,6 +284,11 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
         doc.text(`${report.overallScore}/100`, 177.5, 21, { align: 'center' });
         doc.setFontSize(8);
         doc.text("COMPLIANCE SCORE", 177.5, 25, { align: 'center' });
+        if (report.scoringConfig && report.modelScore !== undefined) {
+            doc.setFontSize(7);
+            doc.setTextColor(150);
+            doc.text(`Model suggested: ${report.modelScore}/100`, 177.5, 31, { align: 'center' });
+        }
 
         let yPos = 45;
 
@@ -172,6 +304,13 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
             const splitSummary = doc.splitTextToSize(report.summary, 180);
             doc.text(splitSummary, 14, yPos);
             yPos += (splitSummary.length * 5) + 10;
+
+            if (report.building && describeBuilding(report.building).length > 0) {
+                doc.setFontSize(9);
+                doc.setTextColor(100, 116, 139); // Slate 500
+                doc.text(`Building: ${describeBuilding(report.building).join(' · ')}`, 14, yPos - 5);
+                yPos += 5;
+            }
         }
 
         // Stats Row (Simple representation of charts)
@@ -206,13 +345,11 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
         // Prepare Data
         const filteredFindings = report.findings.filter(f => 
             exportStatuses.includes(f.status) && 
-            (f.category ? exportCategories.includes(f.category) : true)
-        ).sort((a,b) => {
-             const order = { [ComplianceStatus.FAIL]: 0, [ComplianceStatus.WARNING]: 1, [ComplianceStatus.NEEDS_CLARIFICATION]: 2, [ComplianceStatus.PASS]: 3 };
-             return order[a.status] - order[b.status];
-        });
+            exportReviewStates.includes(reviewOf(f).state) &&
+            !excludedExportCategories.includes(f.category || 'General')
+        ).sort(compareBySeverity);
 
-        const tableHeaders = ['Status', 'Category', 'Description', 'Reference', 'Action'];
+        const tableHeaders = ['Status', 'Severity', 'Category', 'Description', 'Reference', 'Action'];
         if (exportConfig.includeBoundingBoxes) {
             tableHeaders.push('Bounds (y1,x1,y2,x2)');
         }
@@ -220,9 +357,21 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
         const tableBody = filteredFindings.map(f => {
             const row = [
                 f.status,
+                [f.status === ComplianceStatus.PASS ? '-' : SEVERITY_LABELS[severityOf(f)], f.lifeSafety && 'Life safety'].filter(Boolean).join('\n'),
                 f.category || 'General',
-                f.description,
-                f.reference,
+                [
+                  f.description,
+                  f.measurement && `Measured: ${formatMeasurement(f.measurement)}`,
+                  describeEvidence(f).length > 0 && `Evidence: ${describeEvidence(f).join('; ')}`,
+                  f.review && `Review: ${REVIEW_STATE_LABELS[f.review.state]}${f.review.assignee ? ` (${f.review.assignee})` : ''}`,
+                  f.review?.waiverJustification && `Waiver: ${f.review.waiverJustification}`,
+                  f.source === FindingSource.REVIEWER && `Added by reviewer${f.createdBy ? ` ${f.createdBy}` : ''}`,
+                  exportConfig.markCorrections && isCorrected(f) && `Corrected by reviewer: ${correctedFields(f)
+                    .map(field => `${FIELD_LABELS[field]} (was ${formatFieldValue(field, f.corrections![field]!.original)}; ${f.corrections![field]!.editedBy})`)
+                    .join(', ')}`,
+                  isMultiSheet && `(${sheetLabel(f)})`
+                ].filter(Boolean).join('\n'),
+                isUnverifiedReference(f.reference) ? `${f.reference}\n(unverified)` : f.reference,
                 f.recommendation
             ];
             if (exportConfig.includeBoundingBoxes) {
@@ -240,11 +389,12 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
             styles: { fontSize: 8, cellPadding: 3, overflow: 'linebreak' },
             columnStyles: {
                 0: { cellWidth: 20, fontStyle: 'bold' },
-                1: { cellWidth: 25 },
-                2: { cellWidth: 'auto' },
-                3: { cellWidth: 25 },
-                4: { cellWidth: 40 },
-                5: { cellWidth: 25 }
+                1: { cellWidth: 18 },
+                2: { cellWidth: 22 },
+                3: { cellWidth: 'auto' },
+                4: { cellWidth: 25 },
+                5: { cellWidth: 35 },
+                6: { cellWidth: 25 }
             },
             didParseCell: function(data) {
                 if (data.section === 'body' && data.column.index === 0) {
@@ -253,6 +403,16 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                     if (status === ComplianceStatus.WARNING) data.cell.styles.textColor = [217, 119, 6];
                     if (status === ComplianceStatus.PASS) data.cell.styles.textColor = [22, 163, 74];
                 }
+                if (data.section === 'body' && data.column.index === 1) {
+                    const finding = filteredFindings[data.row.index];
+                    if (finding.status !== ComplianceStatus.PASS && severityOf(finding) === FindingSeverity.CRITICAL) {
+                        data.cell.styles.textColor = [185, 28, 28];
+                        data.cell.styles.fontStyle = 'bold';
+                    }
+                }
+                if (data.section === 'body' && data.column.index === 4 && isUnverifiedReference(filteredFindings[data.row.index].reference)) {
+                    data.cell.styles.textColor = [217, 119, 6];
+                }
             }
         });
 
@@ -285,6 +445,14 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
     if (filterStatus !== 'ALL') {
       result = result.filter(f => f.status === filterStatus);
     }
+    if (filterReview !== 'ALL') {
+      result = result.filter(f => reviewOf(f).state === filterReview);
+    }
+    if (filterSeverity === 'LIFE_SAFETY') {
+      result = result.filter(f => f.lifeSafety);
+    } else if (filterSeverity !== 'ALL') {
+      result = result.filter(f => f.status !== ComplianceStatus.PASS && severityOf(f) === filterSeverity);
+    }
 
     // 2. Filter by Search Text
     if (searchText.trim()) {
@@ -299,26 +467,21 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
     // 3. Sort
     result = [...result].sort((a, b) => {
       if (sortBy === 'REFERENCE') {
-        return a.reference.localeCompare(b.reference);
+        return compareReferences(a.reference, b.reference);
       } else if (sortBy === 'SEVERITY') {
-        const severityOrder = {
-          [ComplianceStatus.FAIL]: 0,
-          [ComplianceStatus.WARNING]: 1,
-          [ComplianceStatus.NEEDS_CLARIFICATION]: 2,
-          [ComplianceStatus.PASS]: 3
-        };
-        return severityOrder[a.status] - severityOrder[b.status];
+        return compareBySeverity(a, b);
       }
       return 0;
     });
 
     return result;
-  }, [report.findings, filterStatus, searchText, sortBy]);
+  }, [report.findings, filterStatus, filterReview, filterSeverity, searchText, sortBy]);
 
   // Findings specifically for the drawing visualization (includes drawing specific search + hidden layers)
   const visibleDrawingFindings = useMemo(() => {
     return processedFindings.filter(f => {
       if (!f.boundingBox) return false;
+      if ((f.sheetIndex ?? 0) !== activeSheet?.index) return false;
       if (hiddenLayers.has(f.category || 'General')) return false;
       
       if (drawingSearch.trim()) {
@@ -329,7 +492,7 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
       }
       return true;
     });
-  }, [processedFindings, hiddenLayers, drawingSearch]);
+  }, [processedFindings, hiddenLayers, drawingSearch, activeSheet]);
 
   // Group the processed findings
   const groupedFindings = useMemo(() => {
@@ -351,10 +514,171 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
      }
   };
 
+  const saveCalibration = (calibration: SheetCalibration) => {
+    onUpdateReport?.({
+      ...report,
+      calibrations: [...(report.calibrations || []).filter(c => c.sheetIndex !== calibration.sheetIndex), calibration]
+    });
+    stopPicking();
+  };
+
+  const attachMeasurement = (findingId: string, measurement: MeasuredValue) => {
+    onUpdateReport?.({
+      ...report,
+      findings: report.findings.map(f => f.id === findingId ? { ...f, measurement } : f)
+    });
+  };
+
+  const startPicking = (mode: PickMode) => {
+    stopDrawingFinding();
+    stopAdjustingBox();
+    setPickMode(mode);
+    setPickedPoints([]);
+  };
+
+  const stopPicking = () => {
+    setPickMode(null);
+    setPickedPoints([]);
+  };
+
+  const saveMeasurement = (kind: MeasurementKind, points: number[][]) => {
+    if (!activeSheet) return;
+    const measurement: DrawingMeasurement = {
+      id: createId('m'),
+      sheetIndex: activeSheet.index,
+      kind,
+      points,
+      createdAt: new Date().toISOString()
+    };
+    onUpdateReport?.({ ...report, measurements: [...measurements, measurement] });
+    setPickedPoints([]); // Keep the tool active for the next measurement
+  };
+
+  const deleteMeasurement = (id: string) => {
+    onUpdateReport?.({
+      ...report,
+      measurements: measurements.filter(m => m.id !== id),
+      findings: report.findings.map(f => f.evidenceIds?.includes(id) ? { ...f, evidenceIds: f.evidenceIds.filter(e => e !== id) } : f)
+    });
+  };
+
+  const updateFinding = (finding: ComplianceFinding) => {
+    onUpdateReport?.({ ...report, findings: report.findings.map(f => f.id === finding.id ? finding : f) });
+  };
+
+  const toggleEvidence = (findingId: string, measurementId: string) => {
+    onUpdateReport?.({
+      ...report,
+      findings: report.findings.map(f => {
+        if (f.id !== findingId) return f;
+        const ids = f.evidenceIds || [];
+        return { ...f, evidenceIds: ids.includes(measurementId) ? ids.filter(id => id !== measurementId) : [...ids, measurementId] };
+      })
+    });
+  };
+
+  const handleDrawingPick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = [(e.clientY - rect.top) / rect.height, (e.clientX - rect.left) / rect.width];
+    if (pickMode === 'CALIBRATE') {
+      setPickedPoints(prev => prev.length >= 2 ? [point] : [...prev, point]);
+    } else if (pickMode === MeasurementKind.DISTANCE && pickedPoints.length === 1) {
+      saveMeasurement(pickMode, [pickedPoints[0], point]);
+    } else {
+      setPickedPoints(prev => [...prev, point]);
+    }
+  };
+
+  const pointFromEvent = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (n: number) => Math.min(1, Math.max(0, n));
+    return [clamp((e.clientY - rect.top) / rect.height), clamp((e.clientX - rect.left) / rect.width)];
+  };
+
+  const boxBetween = ([y1, x1]: number[], [y2, x2]: number[]) =>
+    [Math.min(y1, y2), Math.min(x1, x2), Math.max(y1, y2), Math.max(x1, x2)];
+
+  const stopDrawingFinding = () => {
+    setIsDrawingFinding(false);
+    setDragOrigin(null);
+    setDraftBox(null);
+  };
+
+  const handleFindingDragEnd = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!dragOrigin) return;
+    const box = boxBetween(dragOrigin, pointFromEvent(e));
+    setDragOrigin(null);
+    // Ignore stray clicks; a box needs some size to be worth reviewing
+    setDraftBox(box[2] - box[0] > 0.005 && box[3] - box[1] > 0.005 ? box : null);
+  };
+
+  const saveManualFinding = (fields: FindingFields) => {
+    if (!draftBox || !activeSheet) return;
+    const finding: ComplianceFinding = {
+      ...fields,
+      id: createId('f'),
+      boundingBox: draftBox,
+      sheetIndex: report.sheets ? activeSheet.index : undefined,
+      source: FindingSource.REVIEWER,
+      createdBy: reviewer,
+      createdAt: new Date().toISOString()
+    };
+    onUpdateReport?.({ ...report, findings: [...report.findings, finding] });
+    stopDrawingFinding();
+    setActiveFindingId(finding.id);
+  };
+
+  const activeFinding = report.findings.find(f => f.id === activeFindingId && (f.sheetIndex ?? 0) === activeSheet?.index);
+  const isAdjustingBox = !!activeFinding && activeFinding.id === adjustingBoxId && !!adjustedBox;
+
+  const startAdjustingBox = (finding: ComplianceFinding) => {
+    if (!finding.boundingBox) return;
+    stopPicking();
+    stopDrawingFinding();
+    setAdjustingBoxId(finding.id);
+    setAdjustedBox(finding.boundingBox);
+  };
+
+  const stopAdjustingBox = () => {
+    setAdjustingBoxId(null);
+    setAdjustedBox(null);
+    setBoxDrag(null);
+  };
+
+  const handleBoxDragMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!boxDrag) return;
+    const [y, x] = pointFromEvent(e);
+    const [ymin, xmin, ymax, xmax] = boxDrag.startBox;
+    if (boxDrag.handle === 'move') {
+      // Shift without resizing, keeping the whole box on the drawing
+      const dy = Math.min(1 - ymax, Math.max(-ymin, y - boxDrag.origin[0]));
+      const dx = Math.min(1 - xmax, Math.max(-xmin, x - boxDrag.origin[1]));
+      setAdjustedBox([ymin + dy, xmin + dx, ymax + dy, xmax + dx]);
+      return;
+    }
+    // A corner handle moves that corner; the opposite corner stays put
+    const fixedY = boxDrag.handle.startsWith('n') ? ymax : ymin;
+    const fixedX = boxDrag.handle.endsWith('w') ? xmax : xmin;
+    setAdjustedBox(boxBetween([fixedY, fixedX], [y, x]));
+  };
+
+  const saveAdjustedBox = () => {
+    if (activeFinding && adjustedBox) updateFinding(correctFinding(activeFinding, { boundingBox: adjustedBox }, reviewer));
+    stopAdjustingBox();
+  };
+
   const handleFindingClick = (id: string) => {
     setActiveFindingId(id);
+    const finding = report.findings.find(f => f.id === id);
+    if (finding) setActiveSheetIndex(finding.sheetIndex ?? 0);
   };
 
+  useEffect(() => {
+    if (!focusFinding) return;
+    handleFindingClick(focusFinding.findingId);
+    document.getElementById(`finding-${focusFinding.findingId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusFinding]);
+
   return (
     <div className="space-y-6 animate-fadeIn pb-20 relative">
       {/* Header Summary */}
@@ -365,15 +689,39 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
             <span className="px-3 py-1 bg-slate-100 text-slate-600 text-xs rounded-full font-mono">
               {report.fileName}
             </span>
+            {report.revisionLabel && (
+              <span className="px-3 py-1 bg-blue-50 text-blue-700 text-xs rounded-full font-medium">{report.revisionLabel}</span>
+            )}
           </div>
-          <p className="text-slate-500 max-w-xl">{report.summary}</p>
+          <p className="text-slate-500 max-w-xl whitespace-pre-line">{report.summary}</p>
+          {report.building && describeBuilding(report.building).length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 mt-2" title="Building information entered at upload; rule limits depend on it">
+              <Building2 className="w-3.5 h-3.5 text-slate-400" />
+              {describeBuilding(report.building).map(fact => (
+                <span key={fact} className="text-[10px] font-medium text-slate-600 bg-slate-100 px-1.5 py-0.5 rounded">{fact}</span>
+              ))}
+            </div>
+          )}
+          {report.preprocessingSteps && report.preprocessingSteps.length > 0 && (
+            <p className="text-xs text-slate-400 mt-2">Image preprocessing: {report.preprocessingSteps.join(' · ')}</p>
+          )}
         </div>
         
         <div className="flex items-center gap-6">
            <div className="text-center">
               <div className="text-3xl font-bold text-slate-900">{report.overallScore}/100</div>
               <div className="text-xs text-slate-500 uppercase tracking-wide">Score</div>
+              {report.scoringConfig && report.modelScore !== undefined && (
+                <div className="text-[10px] text-slate-400 mt-0.5" title="Score suggested by the model, for reference only">Model: {report.modelScore}</div>
+              )}
            </div>
+           <button
+             onClick={() => downloadBundle(report, reviewer)}
+             className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+             title={`Download an interactive .${BUNDLE_EXTENSION} copy to share with a colleague`}
+           >
+              <Share2 className="w-4 h-4" /> Share
+           </button>
            <button 
              onClick={() => setIsExportModalOpen(true)}
              className="flex items-center gap-2 bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
@@ -383,6 +731,30 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
         </div>
       </div>
 
+      {/* Validation Diagnostics */}
+      {diagnostics.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 text-sm">
+          <button
+            onClick={() => setShowDiagnostics(!showDiagnostics)}
+            className="flex items-center gap-2 w-full text-left text-amber-800 font-medium"
+          >
+            <Wrench className="w-4 h-4" />
+            {diagnostics.length} automatic correction{diagnostics.length === 1 ? '' : 's'} applied to the AI output
+            <ChevronRight className={`w-4 h-4 ml-auto transition-transform ${showDiagnostics ? 'rotate-90' : ''}`} />
+          </button>
+          {showDiagnostics && (
+            <ul className="mt-3 space-y-1 text-xs text-amber-900 animate-fadeIn">
+              {diagnostics.map((d, i) => (
+                <li key={i} className="flex gap-2">
+                  <span className="font-mono text-amber-700 flex-shrink-0">{d.findingId ? `${d.findingId} · ${d.field}` : d.field}</span>
+                  <span>{d.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
         
         {/* Left Column: TOC & Chart (3/12 cols) */}
@@ -412,6 +784,11 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
             </div>
           </div>
 
+          <ScoreBreakdownPanel
+            report={report}
+            onApply={onUpdateReport && ((config) => onUpdateReport(scoreReport(report, config)))}
+          />
+
           <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 sticky top-6">
              <div className="flex items-center gap-2 mb-4 text-slate-900">
                <List className="w-5 h-5" />
@@ -480,6 +857,23 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                   <div className="flex items-center gap-2 text-xs text-slate-500">
                     <Filter className="w-3 h-3" />
                     <span>{processedFindings.length} findings</span>
+                    <select
+                      value={filterReview}
+                      onChange={(e) => setFilterReview(e.target.value as ReviewState | 'ALL')}
+                      className="text-xs border-none bg-transparent font-medium text-slate-700 focus:ring-0 cursor-pointer"
+                    >
+                      <option value="ALL">Any review state</option>
+                      {REVIEW_STATES.map(state => <option key={state} value={state}>{REVIEW_STATE_LABELS[state]}</option>)}
+                    </select>
+                    <select
+                      value={filterSeverity}
+                      onChange={(e) => setFilterSeverity(e.target.value as SeverityFilter)}
+                      className="text-xs border-none bg-transparent font-medium text-slate-700 focus:ring-0 cursor-pointer"
+                    >
+                      <option value="ALL">Any severity</option>
+                      {SEVERITY_ORDER.map(severity => <option key={severity} value={severity}>{SEVERITY_LABELS[severity]}</option>)}
+                      <option value="LIFE_SAFETY">Life safety</option>
+                    </select>
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="text-xs text-slate-400">Sort by:</span>
@@ -513,6 +907,7 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                  {groupedFindings[cat].map((finding) => (
                     <div 
                       key={finding.id}
+                      id={`finding-${finding.id}`}
                       onClick={() => handleFindingClick(finding.id)}
                       className={`bg-white rounded-xl shadow-sm border overflow-hidden transition-all cursor-pointer
                         ${activeFindingId === finding.id 
@@ -521,7 +916,22 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                     >
                       <div className="p-4">
                         <div className="flex justify-between items-start mb-2">
-                          <StatusIcon status={finding.status} />
+                          <div className="flex flex-wrap items-center gap-2">
+                            <StatusIcon status={finding.status} />
+                            <SourceBadge source={finding.source} />
+                            <SeverityBadge finding={finding} />
+                            {finding.review && <ReviewBadge state={finding.review.state} />}
+                            {isCorrected(finding) && (
+                              <span className="inline-flex items-center gap-1 text-[10px] font-medium text-amber-700 bg-amber-50 px-1.5 py-0.5 rounded" title="Corrected by a reviewer">
+                                <Pencil className="w-3 h-3" /> Corrected
+                              </span>
+                            )}
+                            {isMultiSheet && (
+                              <span className="text-[10px] font-medium text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded">
+                                {sheetLabel(finding)}
+                              </span>
+                            )}
+                          </div>
                           <span className={`px-2 py-0.5 rounded-xs font-bold uppercase text-[10px] tracking-wider
                             ${finding.status === ComplianceStatus.FAIL ? 'bg-red-100 text-red-700' : 
                               finding.status === ComplianceStatus.WARNING ? 'bg-amber-100 text-amber-700' :
@@ -531,11 +941,49 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                         </div>
                         
                         <h4 className="font-medium text-slate-900 text-sm mb-2">{finding.description}</h4>
+
+                        {finding.measurement && (
+                          <span className={`inline-flex items-center gap-1 text-[10px] font-medium px-2 py-1 rounded mb-2
+                            ${isWithinLimit(finding.measurement) === false ? 'bg-red-50 text-red-700' : 'bg-slate-50 text-slate-600'}`}>
+                            <Ruler className="w-3 h-3" /> {formatMeasurement(finding.measurement)}
+                          </span>
+                        )}
+
+                        {describeEvidence(finding).length > 0 && (
+                          <div className="flex flex-wrap gap-1 mb-2">
+                            {describeEvidence(finding).map((text, i) => (
+                              <span key={i} className="inline-flex items-center gap-1 text-[10px] font-medium px-2 py-1 rounded bg-cyan-50 text-cyan-700">
+                                <PencilRuler className="w-3 h-3" /> {text}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                         
                         <div className="flex items-center justify-between mb-2">
-                          <span className="inline-flex items-center text-[10px] text-slate-500 bg-slate-50 px-2 py-1 rounded border border-slate-200">
-                            <FileText className="w-3 h-3 mr-1" /> {finding.reference}
-                          </span>
+                          {onOpenClause ? (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onOpenClause(finding.reference);
+                              }}
+                              className="inline-flex items-center text-[10px] text-slate-500 bg-slate-50 px-2 py-1 rounded border border-slate-200 hover:text-blue-700 hover:border-blue-200 hover:bg-blue-50 transition-colors"
+                              title="Read this clause"
+                            >
+                              <FileText className="w-3 h-3 mr-1" /> {finding.reference}
+                            </button>
+                          ) : (
+                            <span className="inline-flex items-center text-[10px] text-slate-500 bg-slate-50 px-2 py-1 rounded border border-slate-200">
+                              <FileText className="w-3 h-3 mr-1" /> {finding.reference}
+                            </span>
+                          )}
+                          {isUnverifiedReference(finding.reference) && (
+                            <span
+                              className="inline-flex items-center gap-1 text-[10px] font-medium text-amber-700 bg-amber-50 px-1.5 py-0.5 rounded ml-1 mr-auto"
+                              title="This clause is not in the SBC clause library. Check it against the published code."
+                            >
+                              <TriangleAlert className="w-3 h-3" /> Unverified
+                            </span>
+                          )}
 
                           <button 
                             onClick={(e) => {
@@ -555,6 +1003,20 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                              <p className="text-slate-600 text-xs bg-slate-50 p-2 rounded border border-slate-100">
                                 <span className="font-semibold text-slate-700">Fix:</span> {finding.recommendation}
                              </p>
+                             {onUpdateReport && (
+                               <FindingEditPanel
+                                 key={`edit-${finding.id}`}
+                                 finding={finding}
+                                 categories={allCategories}
+                                 reviewer={reviewer}
+                                 isAdjustingBox={isAdjustingBox && adjustingBoxId === finding.id}
+                                 onAdjustBox={() => isAdjustingBox && adjustingBoxId === finding.id ? stopAdjustingBox() : startAdjustingBox(finding)}
+                                 onChange={updateFinding}
+                               />
+                             )}
+                             {onUpdateReport && (
+                               <FindingReviewPanel key={finding.id} finding={finding} reviewer={reviewer} onChange={updateFinding} />
+                             )}
                           </div>
                         )}
                       </div>
@@ -668,18 +1130,89 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                       )}
                     </div>
 
+                    {onUpdateReport && (
+                      <button
+                        onClick={() => {
+                          setShowCalibration(!showCalibration);
+                          if (pickMode === 'CALIBRATE') stopPicking();
+                        }}
+                        className={`p-1.5 rounded-md transition-colors ${showCalibration ? 'bg-blue-100 text-blue-600' : activeCalibration ? 'text-blue-500 hover:bg-slate-200' : 'text-slate-400 hover:text-slate-700 hover:bg-slate-200'}`}
+                        title={activeCalibration ? `Scale: ${activeCalibration.description}` : 'Calibrate drawing scale'}
+                      >
+                        <Ruler className="w-4 h-4" />
+                      </button>
+                    )}
+
+                    {onUpdateReport && (
+                      <button
+                        onClick={() => {
+                          setShowMeasureTools(!showMeasureTools);
+                          if (pickMode && pickMode !== 'CALIBRATE') stopPicking();
+                        }}
+                        className={`p-1.5 rounded-md transition-colors ${showMeasureTools ? 'bg-blue-100 text-blue-600' : 'text-slate-400 hover:text-slate-700 hover:bg-slate-200'}`}
+                        title="Measure distances and areas"
+                      >
+                        <PencilRuler className="w-4 h-4" />
+                      </button>
+                    )}
+
+                    {onUpdateReport && (
+                      <button
+                        onClick={() => {
+                          if (isDrawingFinding) {
+                            stopDrawingFinding();
+                          } else {
+                            stopPicking();
+                            stopAdjustingBox();
+                            setIsDrawingFinding(true);
+                          }
+                        }}
+                        className={`p-1.5 rounded-md transition-colors ${isDrawingFinding ? 'bg-teal-100 text-teal-700' : 'text-slate-400 hover:text-slate-700 hover:bg-slate-200'}`}
+                        title="Add a finding by drawing a box"
+                      >
+                        <SquarePlus className="w-4 h-4" />
+                      </button>
+                    )}
+
                     <button className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-200 rounded-md transition-colors">
                       <Maximize2 className="w-4 h-4" />
                     </button>
                   </div>
                </div>
+
+               {/* Sheet Selector */}
+               {isMultiSheet && (
+                 <div className="flex gap-1 px-4 py-2 border-b border-slate-100 overflow-x-auto scrollbar-hide">
+                   {sheets.map(sheet => {
+                     const count = report.findings.filter(f => (f.sheetIndex ?? 0) === sheet.index).length;
+                     return (
+                       <button
+                         key={sheet.index}
+                         onClick={() => { setActiveSheetIndex(sheet.index); stopPicking(); }}
+                         className={`px-3 py-1 rounded-md text-xs font-medium whitespace-nowrap transition-colors flex items-center gap-1.5
+                           ${activeSheet?.index === sheet.index
+                             ? 'bg-slate-900 text-white'
+                             : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                       >
+                         {sheet.label}
+                         <span className={`text-[10px] px-1.5 rounded-full ${activeSheet?.index === sheet.index ? 'bg-slate-700' : 'bg-white'}`}>{count}</span>
+                       </button>
+                     );
+                   })}
+                 </div>
+               )}
                
                <div className="relative bg-slate-900 min-h-[400px] flex items-center justify-center overflow-hidden group rounded-b-xl">
-                  {report.imageBase64 ? (
+                  {activeSheet ? (
                     <div className="relative w-full">
                        <img 
-                          src={`data:image/jpeg;base64,${report.imageBase64}`} 
+                          src={toDataUrl(activeSheet.imageBase64)} 
                           alt="Analyzed Drawing"
+                          onLoad={(e) => {
+                            const { naturalWidth, naturalHeight } = e.currentTarget;
+                            const index = activeSheet.index;
+                            setImageSizes(prev => ({ ...prev, [index]: { width: naturalWidth, height: naturalHeight } }));
+                          }}
                           className={`w-full h-auto object-contain block transition-opacity duration-300 ${showBaseLayer ? 'opacity-90' : 'opacity-10'}`} 
                        />
                        
@@ -695,7 +1228,9 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
 
                             const isActive = activeFindingId === finding.id;
                             const isHovered = hoveredFindingId === finding.id;
-                            const color = finding.status === ComplianceStatus.PASS ? '#22c55e' : finding.status === ComplianceStatus.FAIL ? '#ef4444' : '#f59e0b';
+                            const color = findingColor(finding);
+                            // Resolved and waived findings stay visible but recede behind open ones
+                            const isClosed = isReviewClosed(finding);
 
                             return (
                               <g 
@@ -717,6 +1252,8 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                                   fillOpacity={isActive ? 0.35 : (isHovered ? 0.1 : 0)}
                                   stroke={color}
                                   strokeWidth={isActive ? 3 : (isHovered ? 2 : 1)}
+                                  strokeDasharray={isClosed && !isActive ? '2 3' : undefined}
+                                  strokeOpacity={isClosed && !isActive && !isHovered ? 0.5 : 1}
                                   vectorEffect="non-scaling-stroke"
                                   className={`transition-all duration-300 ease-out`}
                                 />
@@ -771,6 +1308,8 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                                         'bg-green-100 text-green-700'}`}>
                                       {finding.status}
                                     </span>
+                                    <span className="ml-1 inline-flex gap-1"><SeverityBadge finding={finding} /></span>
+                                    {finding.review && <span className="ml-1"><ReviewBadge state={finding.review.state} /></span>}
                                  </div>
                               </div>
                               <div
@@ -780,11 +1319,183 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                             </div>
                           );
                        })}
+
+                       {/* Saved Measurements */}
+                       <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                         {sheetMeasurements.map(m => {
+                           const points = m.points.map(([y, x]) => `${x * 100},${y * 100}`).join(' ');
+                           const isEvidence = activeFinding?.evidenceIds?.includes(m.id);
+                           const stroke = isEvidence ? '#2563eb' : '#06b6d4';
+                           return m.kind === MeasurementKind.AREA
+                             ? <polygon key={m.id} points={points} fill={stroke} fillOpacity={0.15} stroke={stroke} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                             : <polyline key={m.id} points={points} fill="none" stroke={stroke} strokeWidth={2} vectorEffect="non-scaling-stroke" />;
+                         })}
+                       </svg>
+                       {sheetMeasurements.map((m, i) => {
+                         const value = evaluateMeasurement(m, activeCalibration);
+                         const [y, x] = m.points[m.points.length - 1];
+                         return (
+                           <span
+                             key={`label-${m.id}`}
+                             className="absolute z-10 -translate-y-full text-[10px] font-medium bg-cyan-600 text-white px-1 rounded pointer-events-none whitespace-nowrap"
+                             style={{ top: `${y * 100}%`, left: `${x * 100}%` }}
+                           >
+                             M{i + 1}{value ? ` ${formatQuantity(value.value, value.unit)}` : ''}
+                           </span>
+                         );
+                       })}
+
+                       {/* Point Picker (calibration and measurement tools) */}
+                       {pickMode && (
+                         <div className="absolute inset-0 z-30 cursor-crosshair" onClick={handleDrawingPick}>
+                           <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                             {pickedPoints.length >= 2 && (
+                               pickMode === MeasurementKind.AREA
+                                 ? <polygon
+                                     points={pickedPoints.map(([y, x]) => `${x * 100},${y * 100}`).join(' ')}
+                                     fill="#3b82f6" fillOpacity={0.15}
+                                     stroke="#3b82f6" strokeWidth={2} strokeDasharray="6 4" vectorEffect="non-scaling-stroke"
+                                   />
+                                 : <polyline
+                                     points={pickedPoints.map(([y, x]) => `${x * 100},${y * 100}`).join(' ')}
+                                     fill="none"
+                                     stroke="#3b82f6" strokeWidth={2} strokeDasharray="6 4" vectorEffect="non-scaling-stroke"
+                                   />
+                             )}
+                           </svg>
+                           {pickedPoints.map((p, i) => (
+                             <div
+                               key={i}
+                               className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-blue-500 border-2 border-white shadow pointer-events-none"
+                               style={{ top: `${p[0] * 100}%`, left: `${p[1] * 100}%` }}
+                             />
+                           ))}
+                         </div>
+                       )}
+
+                       {/* Box Adjustment (move and resize the active finding) */}
+                       {isAdjustingBox && (
+                         <div
+                           className="absolute inset-0 z-30"
+                           onMouseDown={(e) => {
+                             const handle = (e.target as HTMLElement).dataset.handle;
+                             if (handle) setBoxDrag({ handle, origin: pointFromEvent(e), startBox: adjustedBox! });
+                           }}
+                           onMouseMove={handleBoxDragMove}
+                           onMouseUp={() => setBoxDrag(null)}
+                           onMouseLeave={() => setBoxDrag(null)}
+                         >
+                           <div
+                             data-handle="move"
+                             className="absolute border-2 border-blue-600 bg-blue-500/10 cursor-move"
+                             style={{
+                               top: `${adjustedBox![0] * 100}%`,
+                               left: `${adjustedBox![1] * 100}%`,
+                               height: `${(adjustedBox![2] - adjustedBox![0]) * 100}%`,
+                               width: `${(adjustedBox![3] - adjustedBox![1]) * 100}%`
+                             }}
+                           >
+                             {['nw', 'ne', 'sw', 'se'].map(handle => (
+                               <div
+                                 key={handle}
+                                 data-handle={handle}
+                                 className={`absolute w-3 h-3 bg-white border-2 border-blue-600 rounded-sm
+                                   ${handle.startsWith('n') ? '-top-1.5' : '-bottom-1.5'} ${handle.endsWith('w') ? '-left-1.5' : '-right-1.5'}
+                                   ${handle === 'nw' || handle === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                               />
+                             ))}
+                           </div>
+                         </div>
+                       )}
+
+                       {/* Manual Finding Box */}
+                       {isDrawingFinding && !pickMode && (
+                         <div
+                           className={`absolute inset-0 z-30 ${draftBox && !dragOrigin ? '' : 'cursor-crosshair'}`}
+                           onMouseDown={(e) => {
+                             if (draftBox) return; // Finish or cancel the current box first
+                             const point = pointFromEvent(e);
+                             setDragOrigin(point);
+                             setDraftBox(boxBetween(point, point));
+                           }}
+                           onMouseMove={(e) => dragOrigin && setDraftBox(boxBetween(dragOrigin, pointFromEvent(e)))}
+                           onMouseUp={handleFindingDragEnd}
+                           onMouseLeave={handleFindingDragEnd}
+                         >
+                           {draftBox && (
+                             <div
+                               className="absolute border-2 border-dashed border-teal-500 bg-teal-500/10 pointer-events-none"
+                               style={{
+                                 top: `${draftBox[0] * 100}%`,
+                                 left: `${draftBox[1] * 100}%`,
+                                 height: `${(draftBox[2] - draftBox[0]) * 100}%`,
+                                 width: `${(draftBox[3] - draftBox[1]) * 100}%`
+                               }}
+                             />
+                           )}
+                         </div>
+                       )}
                     </div>
                   ) : (
                     <div className="text-slate-400 text-sm">Image data not available</div>
                   )}
                </div>
+               {showCalibration && activeSheet && (
+                 <ScaleCalibrationPanel
+                   sheet={activeSheet}
+                   calibration={activeCalibration}
+                   imageSize={activeImageSize}
+                   isPicking={pickMode === 'CALIBRATE'}
+                   pickedPoints={pickMode === 'CALIBRATE' ? pickedPoints : []}
+                   activeFinding={activeFinding}
+                   onStartPicking={() => startPicking('CALIBRATE')}
+                   onCancelPicking={stopPicking}
+                   onSave={saveCalibration}
+                   onAttachMeasurement={attachMeasurement}
+                 />
+               )}
+               {showMeasureTools && activeSheet && (
+                 <MeasurementPanel
+                   measurements={sheetMeasurements}
+                   calibration={activeCalibration}
+                   activeTool={pickMode && pickMode !== 'CALIBRATE' ? pickMode : null}
+                   pickedPoints={pickedPoints}
+                   activeFinding={activeFinding}
+                   onSelectTool={startPicking}
+                   onFinish={() => pickMode && pickMode !== 'CALIBRATE' && saveMeasurement(pickMode, pickedPoints)}
+                   onCancel={stopPicking}
+                   onDelete={deleteMeasurement}
+                   onToggleEvidence={toggleEvidence}
+                 />
+               )}
+               {isAdjustingBox && (
+                 <div className="p-3 border-t border-slate-100 text-xs flex items-center justify-between gap-2">
+                   <span className="flex items-center gap-2 text-slate-600">
+                     <Move className="w-4 h-4 text-blue-600" /> Drag the box to move it, or a corner to resize it.
+                   </span>
+                   <div className="flex gap-1 flex-shrink-0">
+                     <button onClick={stopAdjustingBox} className="px-2 py-1 rounded-md text-slate-600 hover:bg-slate-100">Cancel</button>
+                     <button onClick={saveAdjustedBox} className="px-2 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-white font-medium">Save box</button>
+                   </div>
+                 </div>
+               )}
+               {isDrawingFinding && (
+                 <div className="p-3 border-t border-slate-100 text-xs space-y-3">
+                   <div className="flex items-center gap-2 font-semibold text-slate-700">
+                     <UserRoundPen className="w-4 h-4 text-teal-600" /> New reviewer finding
+                   </div>
+                   {draftBox && !dragOrigin ? (
+                     <FindingForm
+                       categories={allCategories}
+                       submitLabel="Add finding"
+                       onSubmit={saveManualFinding}
+                       onCancel={stopDrawingFinding}
+                     />
+                   ) : (
+                     <p className="text-slate-500">Drag a rectangle around the area on the drawing.</p>
+                   )}
+                 </div>
+               )}
                <div className="p-3 bg-slate-50 text-xs text-slate-500 border-t border-slate-100 flex justify-between rounded-b-xl">
                   <span>Click boxes to view details</span>
                   <span>{visibleDrawingFindings.length} zones visible</span>
@@ -868,6 +1579,16 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                       </div>
                       <span className="text-sm font-medium text-slate-700">Include Bounding Box Coordinates</span>
                    </button>
+
+                   <button 
+                    onClick={() => setExportConfig(c => ({...c, markCorrections: !c.markCorrections}))}
+                    className="flex items-center w-full p-3 rounded-lg border border-slate-200 hover:border-slate-300 transition-colors"
+                   >
+                      <div className={`w-5 h-5 rounded border flex items-center justify-center mr-3 transition-colors ${exportConfig.markCorrections ? 'bg-blue-600 border-blue-600' : 'border-slate-300 bg-white'}`}>
+                          {exportConfig.markCorrections && <Check className="w-3.5 h-3.5 text-white" />}
+                      </div>
+                      <span className="text-sm font-medium text-slate-700">Mark Reviewer Corrections</span>
+                   </button>
                 </div>
               </section>
 
@@ -899,15 +1620,38 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                  </div>
               </section>
 
+              {/* Review State Filter */}
+              <section>
+                 <label className="text-sm font-bold text-slate-800 block mb-3">Filter by Review State</label>
+                 <div className="grid grid-cols-2 gap-3">
+                    {REVIEW_STATES.map(state => (
+                        <button
+                          key={state}
+                          onClick={() => toggleExportReviewState(state)}
+                          className={`flex items-center p-2 rounded-lg border transition-all ${
+                             exportReviewStates.includes(state)
+                             ? 'text-slate-800 bg-slate-50 border-slate-300 ring-1 ring-current border-transparent'
+                             : 'border-slate-200 bg-white text-slate-500 hover:bg-slate-50'
+                          }`}
+                        >
+                            <div className={`w-4 h-4 rounded border flex items-center justify-center mr-2 flex-shrink-0 bg-white ${exportReviewStates.includes(state) ? 'border-current' : 'border-slate-300'}`}>
+                                {exportReviewStates.includes(state) && <Check className="w-3 h-3" />}
+                            </div>
+                            <span className="text-xs font-bold uppercase tracking-wider">{REVIEW_STATE_LABELS[state]}</span>
+                        </button>
+                    ))}
+                 </div>
+              </section>
+
               {/* Category Filter */}
               <section>
                   <div className="flex items-center justify-between mb-2 mt-4 px-1">
                     <span className="text-sm font-bold text-slate-800">Filter by Category</span>
                     <button 
-                        onClick={() => setExportCategories(exportCategories.length === allCategories.length ? [] : allCategories)}
+                        onClick={() => setExcludedExportCategories(allExportCategoriesSelected ? allCategories : [])}
                         className="text-xs text-blue-600 hover:underline"
                     >
-                        {exportCategories.length === allCategories.length ? 'Deselect All' : 'Select All'}
+                        {allExportCategoriesSelected ? 'Deselect All' : 'Select All'}
                     </button>
                   </div>
                   <div className="max-h-40 overflow-y-auto space-y-2 pr-1 custom-scrollbar bg-slate-50 p-2 rounded-lg border border-slate-100">
@@ -917,8 +1661,8 @@ const ComplianceReport: React.FC<ComplianceReportProps> = ({ report, onConsult }
                         onClick={() => toggleExportCategory(cat)}
                         className="flex items-center w-full p-2 rounded-md hover:bg-white hover:shadow-sm transition-all text-left"
                         >
-                            <div className={`w-4 h-4 rounded border flex items-center justify-center mr-3 flex-shrink-0 transition-colors ${exportCategories.includes(cat) ? 'bg-blue-600 border-blue-600' : 'border-slate-300 bg-white'}`}>
-                                {exportCategories.includes(cat) && <Check className="w-3 h-3 text-white" />}
+                            <div className={`w-4 h-4 rounded border flex items-center justify-center mr-3 flex-shrink-0 transition-colors ${!excludedExportCategories.includes(cat) ? 'bg-blue-600 border-blue-600' : 'border-slate-300 bg-white'}`}>
+                                {!excludedExportCategories.includes(cat) && <Check className="w-3 h-3 text-white" />}
                             </div>
                             <span className="text-sm text-slate-600 truncate">{cat}</span>
                         </button>
@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
+import { Project, ReportSummary, Revision } from '../types';
+import { openFailsByCategory, scoreTrend } from '../services/dashboardStats';
+
+interface DashboardTrendsProps {
+  reports: ReportSummary[];
+  revisions: Revision[];
+  projects: Project[];
+}
+
+const SERIES_COLORS = ['#2563eb', '#16a34a', '#f59e0b', '#9333ea', '#0891b2', '#e11d48', '#64748b'];
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const DashboardTrends: React.FC<DashboardTrendsProps> = ({ reports, revisions, projects }) => {
+  const trend = useMemo(() => scoreTrend(reports, projects), [reports, projects]);
+  const fails = useMemo(() => openFailsByCategory(reports, revisions), [reports, revisions]);
+  const trendProjects = projects.filter(p => trend.some(point => p.id in point));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="font-semibold text-slate-900 mb-4">Compliance Score Over Time</h3>
+        {trendProjects.length === 0 ? (
+          <p className="h-56 flex items-center justify-center text-sm text-slate-400">File scans under a project to see score trends.</p>
+        ) : (
+          <div className="h-56 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trend} margin={{ top: 5, right: 10, bottom: 0, left: -20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatDate} tick={{ fontSize: 11 }} />
+                <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} />
+                <RechartsTooltip labelFormatter={(time) => new Date(Number(time)).toLocaleString()} />
+                <Legend iconSize={8} wrapperStyle={{ fontSize: '12px' }} />
+                {trendProjects.map((project, i) => (
+                  <Line
+                    key={project.id}
+                    dataKey={project.id}
+                    name={project.name}
+                    stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+        <h3 className="font-semibold text-slate-900 mb-4">Open Fails by Category</h3>
+        {fails.length === 0 ? (
+          <p className="h-56 flex items-center justify-center text-sm text-slate-400">No open FAIL findings in the latest scans.</p>
+        ) : (
+          <div className="h-56 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={fails} layout="vertical" margin={{ top: 5, right: 10, bottom: 0, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tick={{ fontSize: 11 }} />
+                <YAxis type="category" dataKey="category" width={110} tick={{ fontSize: 11 }} />
+                <RechartsTooltip />
+                <Bar dataKey="count" name="Open fails" fill="#ef4444" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DashboardTrends;
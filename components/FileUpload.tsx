@@ -1,23 +1,99 @@
 import React, { useCallback, useState } from 'react';
-import { Upload, FileType, CheckCircle, AlertCircle } from 'lucide-react';
+import { Upload, FileType, CheckCircle, AlertCircle, Grid2x2, ScanLine, Package } from 'lucide-react';
+import { AnalysisOptions, DrawingSheet, PreprocessingOptions, TilingOptions } from '../types';
+import { rasterizePdf } from '../services/pdfService';
+import { parseDxf, renderDxfSheet } from '../services/dxfService';
+import { DEFAULT_TILING } from '../services/tiling';
+import { DEFAULT_PREPROCESSING, sniffImageMimeType } from '../services/imagePreprocessing';
+import { BUNDLE_EXTENSION, ReportBundle, isBundleFile, parseBundle } from '../services/reportBundle';
+
+const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Preprocessing toggles shown when scan cleanup is on
+const PREPROCESSING_STEPS: { key: keyof Omit<PreprocessingOptions, 'maxDimension'>; label: string }[] = [
+  { key: 'deskew', label: 'Deskew' },
+  { key: 'enhanceContrast', label: 'Boost contrast' },
+  { key: 'binarize', label: 'Black & white' },
+  { key: 'cropMargins', label: 'Crop margins' }
+];
 
 interface FileUploadProps {
-  onUpload: (file: File, base64: string) => void;
+  onUpload: (file: File, sheets: DrawingSheet[], options: AnalysisOptions) => void;
   isAnalyzing: boolean;
+  onImportBundle?: (bundle: ReportBundle) => void; // Omit to reject report bundles
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onUpload, isAnalyzing }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onUpload, isAnalyzing, onImportBundle }) => {
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isRasterizing, setIsRasterizing] = useState(false); // PDF pages or DXF geometry being rendered
+  const isBusy = isAnalyzing || isRasterizing;
+  const [tiling, setTiling] = useState<TilingOptions | null>(null);
+  const [preprocessing, setPreprocessing] = useState<PreprocessingOptions | null>(null);
+  const options: AnalysisOptions = {
+    ...(tiling ? { tiling } : {}),
+    ...(preprocessing ? { preprocessing } : {})
+  };
 
-  const handleFile = (file: File) => {
+  const handleFile = async (file: File) => {
     setError(null);
-    // In a real app, we'd handle .dwg/.rvt parsing here or on backend.
-    // For this demo, we accept images that represent the drawings.
-    const validTypes = ['image/jpeg', 'image/png', 'image/webp'];
+    // .dwg/.rvt are proprietary; we accept DXF exports, PDF drawing sets and images.
+    const extension = file.name.split('.').pop()?.toLowerCase();
+
+    // A shared report opens as-is, without a new analysis
+    if (isBundleFile(file.name)) {
+      if (!onImportBundle) {
+        setError("Report bundles cannot be opened here.");
+        return;
+      }
+      try {
+        onImportBundle(parseBundle(await file.text()));
+      } catch (err) {
+        console.error("Report bundle import failed", err);
+        setError(err instanceof Error ? err.message : "Could not read the report bundle.");
+      }
+      return;
+    }
+
+    if (extension === 'dxf') {
+      setIsRasterizing(true);
+      try {
+        const parsed = parseDxf(await file.text());
+        onUpload(file, [renderDxfSheet(parsed)], options);
+      } catch (err) {
+        console.error("DXF parsing failed", err);
+        setError(err instanceof Error ? err.message : "Could not read the DXF file.");
+      } finally {
+        setIsRasterizing(false);
+      }
+      return;
+    }
+
+    if (extension === 'dwg' || extension === 'rvt') {
+      setError("DWG and RVT files cannot be read directly. Please export the plan as DXF (or PDF) and upload that instead.");
+      return;
+    }
+
+    if (file.type === 'application/pdf') {
+      setIsRasterizing(true);
+      try {
+        const sheets = await rasterizePdf(file);
+        if (sheets.length === 0) {
+          setError("The PDF does not contain any pages.");
+          return;
+        }
+        onUpload(file, sheets, options);
+      } catch (err) {
+        console.error("PDF rasterization failed", err);
+        setError(err instanceof Error ? err.message : "Could not read the PDF drawing set.");
+      } finally {
+        setIsRasterizing(false);
+      }
+      return;
+    }
     
-    if (!validTypes.includes(file.type)) {
-      setError("For this demo version, please upload an Image (PNG/JPG) of your drawing plan.");
+    if (!file.type.startsWith('image/')) {
+      setError("Please upload a DXF file, a PDF drawing set, or an Image (PNG/JPG/WebP).");
       return;
     }
 
@@ -26,7 +102,13 @@ const FileUpload: React.FC<FileUploadProps> = ({ onUpload, isAnalyzing }) => {
       const base64String = reader.result as string;
       // remove data url prefix for API
       const base64Data = base64String.split(',')[1];
-      onUpload(file, base64Data);
+      // Trust the file contents rather than the extension-derived file.type
+      const mimeType = sniffImageMimeType(base64Data);
+      if (!mimeType || !SUPPORTED_IMAGE_TYPES.includes(mimeType)) {
+        setError("This image format is not supported. Please upload a PNG, JPG or WebP image.");
+        return;
+      }
+      onUpload(file, [{ index: 0, label: 'Sheet 1', imageBase64: base64Data }], options);
     };
     reader.readAsDataURL(file);
   };
@@ -41,14 +123,15 @@ const FileUpload: React.FC<FileUploadProps> = ({ onUpload, isAnalyzing }) => {
     }
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  // Not memoized: handleFile changes with the tiling and preprocessing options
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       handleFile(e.dataTransfer.files[0]);
     }
-  }, []);
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
@@ -62,7 +145,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onUpload, isAnalyzing }) => {
       <div 
         className={`relative group flex flex-col items-center justify-center w-full h-80 border-2 border-dashed rounded-2xl transition-all duration-300 ease-in-out
         ${dragActive ? 'border-blue-500 bg-blue-50 scale-[1.02]' : 'border-slate-300 bg-white hover:border-blue-400 hover:bg-slate-50'}
-        ${isAnalyzing ? 'opacity-50 pointer-events-none' : ''}`}
+        ${isBusy ? 'opacity-50 pointer-events-none' : ''}`}
         onDragEnter={handleDrag}
         onDragLeave={handleDrag}
         onDragOver={handleDrag}
@@ -75,6 +158,12 @@ const FileUpload: React.FC<FileUploadProps> = ({ onUpload, isAnalyzing }) => {
                <p className="text-lg font-medium text-slate-700">Analyzing Drawing Structure...</p>
                <p className="text-sm text-slate-500 mt-2">Checking SBC 201 & 801 Compliance</p>
             </div>
+          ) : isRasterizing ? (
+            <div className="animate-pulse flex flex-col items-center">
+               <div className="h-12 w-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4"></div>
+               <p className="text-lg font-medium text-slate-700">Preparing Drawing Sheets...</p>
+               <p className="text-sm text-slate-500 mt-2">Rendering the drawing for analysis</p>
+            </div>
           ) : (
             <>
               <div className="p-4 bg-blue-100 rounded-full mb-4 group-hover:bg-blue-200 transition-colors">
@@ -84,12 +173,13 @@ const FileUpload: React.FC<FileUploadProps> = ({ onUpload, isAnalyzing }) => {
                 <span className="text-blue-600">Click to upload</span> or drag and drop
               </p>
               <p className="text-sm text-slate-500 mb-6">
-                Supports DWG, DXF, IFC, RVT (Simulated via Image upload for Demo)
+                Supports DXF exports, multi-sheet PDF sets and drawing images (PNG, JPG, WebP)
               </p>
               <div className="flex gap-4 text-xs text-slate-400">
                 <span className="flex items-center"><FileType className="w-3 h-3 mr-1"/> AutoCAD</span>
                 <span className="flex items-center"><FileType className="w-3 h-3 mr-1"/> Revit</span>
                 <span className="flex items-center"><FileType className="w-3 h-3 mr-1"/> PDF Plans</span>
+                {onImportBundle && <span className="flex items-center"><Package className="w-3 h-3 mr-1"/> .{BUNDLE_EXTENSION} reports</span>}
               </div>
             </>
           )}
@@ -98,11 +188,87 @@ const FileUpload: React.FC<FileUploadProps> = ({ onUpload, isAnalyzing }) => {
           type="file" 
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" 
           onChange={handleChange}
-          disabled={isAnalyzing}
-          accept="image/*"
+          disabled={isBusy}
+          accept={`image/*,application/pdf,.dxf${onImportBundle ? `,.${BUNDLE_EXTENSION}` : ''}`}
         />
       </div>
 
+      {/* Analysis Options */}
+      <div className={`mt-4 bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex items-center justify-between gap-4 ${isBusy ? 'opacity-50 pointer-events-none' : ''}`}>
+        <button
+          onClick={() => setTiling(tiling ? null : DEFAULT_TILING)}
+          className="flex items-start gap-3 text-left"
+        >
+          <div className={`mt-0.5 w-9 h-5 rounded-full relative transition-colors flex-shrink-0 ${tiling ? 'bg-blue-600' : 'bg-slate-300'}`}>
+            <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full shadow transition-all ${tiling ? 'left-[18px]' : 'left-0.5'}`}></div>
+          </div>
+          <div>
+            <h4 className="font-semibold text-sm text-slate-900 flex items-center gap-1.5"><Grid2x2 className="w-4 h-4 text-slate-500" /> High-Resolution Tiled Analysis</h4>
+            <p className="text-xs text-slate-500 mt-1">For large sheets (A1/A0). Analyzes overlapping tiles to catch small text and door swings. Takes longer.</p>
+          </div>
+        </button>
+        {tiling && (
+          <select
+            value={`${tiling.rows}x${tiling.cols}`}
+            onChange={(e) => {
+              const [rows, cols] = e.target.value.split('x').map(Number);
+              setTiling({ ...tiling, rows, cols });
+            }}
+            className="text-xs border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="2x2">2 × 2 tiles</option>
+            <option value="3x3">3 × 3 tiles</option>
+            <option value="4x4">4 × 4 tiles</option>
+          </select>
+        )}
+      </div>
+
+      <div className={`mt-3 bg-white p-4 rounded-xl border border-slate-200 shadow-sm ${isBusy ? 'opacity-50 pointer-events-none' : ''}`}>
+        <div className="flex items-center justify-between gap-4">
+          <button
+            onClick={() => setPreprocessing(preprocessing ? null : DEFAULT_PREPROCESSING)}
+            className="flex items-start gap-3 text-left"
+          >
+            <div className={`mt-0.5 w-9 h-5 rounded-full relative transition-colors flex-shrink-0 ${preprocessing ? 'bg-blue-600' : 'bg-slate-300'}`}>
+              <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full shadow transition-all ${preprocessing ? 'left-[18px]' : 'left-0.5'}`}></div>
+            </div>
+            <div>
+              <h4 className="font-semibold text-sm text-slate-900 flex items-center gap-1.5"><ScanLine className="w-4 h-4 text-slate-500" /> Scan Cleanup</h4>
+              <p className="text-xs text-slate-500 mt-1">For scanned or photographed drawings. Findings are still shown on the original image.</p>
+            </div>
+          </button>
+          {preprocessing && (
+            <select
+              value={preprocessing.maxDimension ?? 0}
+              onChange={(e) => {
+                const maxDimension = Number(e.target.value);
+                setPreprocessing({ ...preprocessing, maxDimension: maxDimension || undefined });
+              }}
+              className="text-xs border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value={0}>Full resolution</option>
+              <option value={2000}>Max 2000 px</option>
+              <option value={3000}>Max 3000 px</option>
+              <option value={4000}>Max 4000 px</option>
+            </select>
+          )}
+        </div>
+        {preprocessing && (
+          <div className="flex flex-wrap gap-2 mt-3 pl-12">
+            {PREPROCESSING_STEPS.map(({ key, label }) => (
+              <button
+                key={key}
+                onClick={() => setPreprocessing({ ...preprocessing, [key]: !preprocessing[key] })}
+                className={`text-xs px-2.5 py-1 rounded-full border transition-colors
+                  ${preprocessing[key] ? 'bg-blue-50 border-blue-200 text-blue-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
       {error && (
         <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center text-red-700">
           <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
@@ -110,7 +276,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onUpload, isAnalyzing }) => {
         </div>
       )}
 
-      {!isAnalyzing && !error && (
+      {!isBusy && !error && (
         <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
           <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex items-start space-x-3">
              <div className="bg-green-100 p-2 rounded-lg"><CheckCircle className="w-5 h-5 text-green-600"/></div>
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Pencil, Move, RotateCcw, History } from 'lucide-react';
+import { ComplianceFinding } from '../types';
+import FindingForm, { FindingFields } from './FindingForm';
+import { FIELD_LABELS, correctFinding, correctedFields, formatFieldValue, revertCorrection } from '../services/findingCorrection';
+import { severityOf } from '../services/severity';
+import { formatRelativeTime } from './ScanHistory';
+
+interface FindingEditPanelProps {
+  finding: ComplianceFinding;
+  categories: string[];
+  reviewer: string; // Recorded as the author of corrections
+  isAdjustingBox: boolean;
+  onAdjustBox: () => void; // Starts moving/resizing the box on the drawing
+  onChange: (finding: ComplianceFinding) => void;
+}
+
+const FindingEditPanel: React.FC<FindingEditPanelProps> = ({ finding, categories, reviewer, isAdjustingBox, onAdjustBox, onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const corrected = correctedFields(finding);
+
+  const initial: FindingFields = {
+    category: finding.category,
+    description: finding.description,
+    reference: finding.reference,
+    status: finding.status,
+    severity: severityOf(finding),
+    lifeSafety: !!finding.lifeSafety,
+    recommendation: finding.recommendation
+  };
+
+  const save = (fields: FindingFields) => {
+    // Only pass what the reviewer touched, so derived defaults are not recorded as corrections
+    const changes = (Object.keys(fields) as (keyof FindingFields)[])
+      .filter(key => fields[key] !== initial[key])
+      .reduce((acc, key) => ({ ...acc, [key]: fields[key] }), {} as Partial<FindingFields>);
+    onChange(correctFinding(finding, changes, reviewer));
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-100 space-y-3 text-xs" onClick={(e) => e.stopPropagation()}>
+      {corrected.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="flex items-center gap-1 font-semibold text-slate-700"><History className="w-3.5 h-3.5" /> Corrections</p>
+          {corrected.map(field => {
+            const correction = finding.corrections![field]!;
+            return (
+              <div key={field} className="flex items-start justify-between gap-2 bg-amber-50 border border-amber-100 rounded p-2">
+                <div className="min-w-0">
+                  <p className="text-slate-700"><span className="font-medium">{FIELD_LABELS[field]}</span> was <span className="line-through text-slate-500">{formatFieldValue(field, correction.original)}</span></p>
+                  <p className="text-slate-400">{correction.editedBy} · {formatRelativeTime(correction.editedAt)}</p>
+                </div>
+                <button
+                  onClick={() => onChange(revertCorrection(finding, field))}
+                  className="flex-shrink-0 p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-amber-100"
+                  title="Restore the original value"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isEditing ? (
+        <FindingForm initial={initial} categories={categories} submitLabel="Save changes" onSubmit={save} onCancel={() => setIsEditing(false)} />
+      ) : (
+        <div className="flex gap-1">
+          <button onClick={() => setIsEditing(true)} className="flex items-center gap-1 px-2 py-1 rounded-md text-slate-600 hover:bg-slate-100 font-medium">
+            <Pencil className="w-3 h-3" /> Edit finding
+          </button>
+          {finding.boundingBox && (
+            <button
+              onClick={onAdjustBox}
+              className={`flex items-center gap-1 px-2 py-1 rounded-md font-medium ${isAdjustingBox ? 'bg-blue-100 text-blue-700' : 'text-slate-600 hover:bg-slate-100'}`}
+            >
+              <Move className="w-3 h-3" /> Adjust box
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FindingEditPanel;
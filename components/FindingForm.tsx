@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { ComplianceFinding, ComplianceStatus, FindingSeverity } from '../types';
+import { SEVERITY_LABELS, SEVERITY_ORDER } from '../services/severity';
+
+// The fields a reviewer writes; position, source and ids are handled by the caller
+export type FindingFields = Pick<ComplianceFinding, 'category' | 'description' | 'reference' | 'status' | 'severity' | 'lifeSafety' | 'recommendation'>;
+
+interface FindingFormProps {
+  initial?: Partial<FindingFields>;
+  categories: string[]; // Suggestions from the report
+  submitLabel: string;
+  onSubmit: (fields: FindingFields) => void;
+  onCancel: () => void;
+}
+
+const STATUS_OPTIONS: { value: ComplianceStatus; label: string }[] = [
+  { value: ComplianceStatus.FAIL, label: 'Fail' },
+  { value: ComplianceStatus.WARNING, label: 'Warning' },
+  { value: ComplianceStatus.NEEDS_CLARIFICATION, label: 'Needs clarification' },
+  { value: ComplianceStatus.PASS, label: 'Pass' }
+];
+
+const inputClass = 'w-full px-2 py-1 border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white';
+
+const FindingForm: React.FC<FindingFormProps> = ({ initial, categories, submitLabel, onSubmit, onCancel }) => {
+  const [fields, setFields] = useState<FindingFields>({
+    category: initial?.category || '',
+    description: initial?.description || '',
+    reference: initial?.reference || '',
+    status: initial?.status || ComplianceStatus.FAIL,
+    severity: initial?.severity || FindingSeverity.MAJOR,
+    lifeSafety: initial?.lifeSafety || false,
+    recommendation: initial?.recommendation || ''
+  });
+  const set = <K extends keyof FindingFields>(key: K, value: FindingFields[K]) => setFields(f => ({ ...f, [key]: value }));
+  const isComplete = fields.category.trim() !== '' && fields.description.trim() !== '';
+
+  const submit = () => {
+    if (!isComplete) return;
+    onSubmit({
+      ...fields,
+      category: fields.category.trim(),
+      description: fields.description.trim(),
+      reference: fields.reference.trim() || 'N/A',
+      recommendation: fields.recommendation.trim()
+    });
+  };
+
+  return (
+    <div className="space-y-2 text-xs" onClick={(e) => e.stopPropagation()}>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-0.5">
+          <span className="text-slate-500">Category *</span>
+          <input list="finding-form-categories" value={fields.category} onChange={(e) => set('category', e.target.value)} className={inputClass} />
+          <datalist id="finding-form-categories">
+            {categories.map(c => <option key={c} value={c} />)}
+          </datalist>
+        </label>
+        <label className="space-y-0.5">
+          <span className="text-slate-500">SBC reference</span>
+          <input value={fields.reference} onChange={(e) => set('reference', e.target.value)} placeholder="e.g. SBC 201 - 1020.4" className={inputClass} />
+        </label>
+      </div>
+      <label className="block space-y-0.5">
+        <span className="text-slate-500">Description *</span>
+        <textarea value={fields.description} onChange={(e) => set('description', e.target.value)} rows={2} className={inputClass} />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-0.5">
+          <span className="text-slate-500">Status</span>
+          <select value={fields.status} onChange={(e) => set('status', e.target.value as ComplianceStatus)} className={inputClass}>
+            {STATUS_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </label>
+        <label className="space-y-0.5">
+          <span className="text-slate-500">Severity</span>
+          <select value={fields.severity} onChange={(e) => set('severity', e.target.value as FindingSeverity)} className={inputClass}>
+            {SEVERITY_ORDER.map(s => <option key={s} value={s}>{SEVERITY_LABELS[s]}</option>)}
+          </select>
+        </label>
+      </div>
+      <label className="flex items-center gap-2 text-slate-600">
+        <input type="checkbox" checked={!!fields.lifeSafety} onChange={(e) => set('lifeSafety', e.target.checked)} />
+        Life-safety issue
+      </label>
+      <label className="block space-y-0.5">
+        <span className="text-slate-500">Recommendation</span>
+        <textarea value={fields.recommendation} onChange={(e) => set('recommendation', e.target.value)} rows={2} className={inputClass} />
+      </label>
+      <div className="flex justify-end gap-1">
+        <button onClick={onCancel} className="flex items-center gap-1 px-2 py-1 rounded-md text-slate-600 hover:bg-slate-100">
+          <X className="w-3.5 h-3.5" /> Cancel
+        </button>
+        <button
+          onClick={submit}
+          disabled={!isComplete}
+          className="flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded-md font-medium disabled:opacity-50"
+        >
+          <Check className="w-3.5 h-3.5" /> {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FindingForm;
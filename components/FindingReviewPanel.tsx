@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Send, CircleUser } from 'lucide-react';
+import { ComplianceFinding, ReviewState } from '../types';
+import { REVIEW_STATES, REVIEW_STATE_LABELS, addComment, assignFinding, reviewOf, setReviewState } from '../services/findingReview';
+import { formatRelativeTime } from './ScanHistory';
+
+interface FindingReviewPanelProps {
+  finding: ComplianceFinding;
+  reviewer: string; // Recorded as the author of changes and comments
+  onChange: (finding: ComplianceFinding) => void;
+}
+
+export const REVIEW_STATE_STYLES: Record<ReviewState, string> = {
+  [ReviewState.OPEN]: 'bg-slate-100 text-slate-600',
+  [ReviewState.ACKNOWLEDGED]: 'bg-sky-100 text-sky-700',
+  [ReviewState.IN_PROGRESS]: 'bg-violet-100 text-violet-700',
+  [ReviewState.RESOLVED]: 'bg-green-100 text-green-700',
+  [ReviewState.WAIVED]: 'bg-slate-200 text-slate-700'
+};
+
+export const ReviewBadge = ({ state }: { state: ReviewState }) => (
+  <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${REVIEW_STATE_STYLES[state]}`}>
+    {REVIEW_STATE_LABELS[state]}
+  </span>
+);
+
+const FindingReviewPanel: React.FC<FindingReviewPanelProps> = ({ finding, reviewer, onChange }) => {
+  const review = reviewOf(finding);
+  const [isWaiving, setIsWaiving] = useState(false);
+  const [justification, setJustification] = useState('');
+  const [assignee, setAssignee] = useState(review.assignee || '');
+  const [comment, setComment] = useState('');
+
+  const changeState = (state: ReviewState) => {
+    if (state === ReviewState.WAIVED) {
+      setIsWaiving(true);
+      return;
+    }
+    setIsWaiving(false);
+    onChange(setReviewState(finding, state, reviewer));
+  };
+
+  const confirmWaiver = () => {
+    onChange(setReviewState(finding, ReviewState.WAIVED, reviewer, justification));
+    setIsWaiving(false);
+    setJustification('');
+  };
+
+  const saveAssignee = () => {
+    if (assignee.trim() !== (review.assignee || '')) onChange(assignFinding(finding, assignee, reviewer));
+  };
+
+  const postComment = () => {
+    if (!comment.trim()) return;
+    onChange(addComment(finding, comment, reviewer));
+    setComment('');
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-100 space-y-3 text-xs" onClick={(e) => e.stopPropagation()}>
+      <div>
+        <p className="font-semibold text-slate-700 mb-1.5">Review</p>
+        <div className="flex flex-wrap gap-1">
+          {REVIEW_STATES.map(state => (
+            <button
+              key={state}
+              onClick={() => changeState(state)}
+              className={`px-2 py-1 rounded-md font-medium transition-colors
+                ${(isWaiving ? state === ReviewState.WAIVED : review.state === state)
+                  ? 'bg-slate-900 text-white'
+                  : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+            >
+              {REVIEW_STATE_LABELS[state]}
+            </button>
+          ))}
+        </div>
+        {review.updatedBy && review.updatedAt && (
+          <p className="text-[10px] text-slate-400 mt-1">Updated by {review.updatedBy} · {formatRelativeTime(review.updatedAt)}</p>
+        )}
+      </div>
+
+      {isWaiving && (
+        <div className="space-y-1.5">
+          <textarea
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            placeholder="Why is this finding acceptable? (required)"
+            rows={2}
+            className="w-full px-2 py-1.5 border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex justify-end gap-1">
+            <button onClick={() => setIsWaiving(false)} className="px-2 py-1 rounded-md text-slate-600 hover:bg-slate-100">Cancel</button>
+            <button
+              onClick={confirmWaiver}
+              disabled={!justification.trim()}
+              className="px-2 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-white font-medium disabled:opacity-50"
+            >
+              Waive Finding
+            </button>
+          </div>
+        </div>
+      )}
+
+      {review.state === ReviewState.WAIVED && review.waiverJustification && !isWaiving && (
+        <p className="text-slate-600 bg-slate-50 p-2 rounded border border-slate-100">
+          <span className="font-semibold text-slate-700">Waiver:</span> {review.waiverJustification}
+        </p>
+      )}
+
+      <label className="flex items-center gap-2">
+        <CircleUser className="w-4 h-4 text-slate-400 flex-shrink-0" />
+        <input
+          value={assignee}
+          onChange={(e) => setAssignee(e.target.value)}
+          onBlur={saveAssignee}
+          onKeyDown={(e) => e.key === 'Enter' && saveAssignee()}
+          placeholder="Assignee"
+          className="flex-1 px-2 py-1 border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+
+      <div className="space-y-2">
+        {review.comments.map(c => (
+          <div key={c.id} className="bg-slate-50 p-2 rounded border border-slate-100">
+            <p className="text-[10px] text-slate-400 mb-0.5"><span className="font-medium text-slate-600">{c.author}</span> · {formatRelativeTime(c.createdAt)}</p>
+            <p className="text-slate-700 whitespace-pre-wrap">{c.text}</p>
+          </div>
+        ))}
+        <div className="flex gap-1">
+          <input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && postComment()}
+            placeholder="Add a comment..."
+            className="flex-1 px-2 py-1 border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button onClick={postComment} disabled={!comment.trim()} className="p-1.5 rounded-md text-blue-600 hover:bg-blue-50 disabled:opacity-40" title="Post comment">
+            <Send className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FindingReviewPanel;
@@ -4,7 +4,7 @@ import { ViewState } from '../types';
 
 interface LoginPageProps {
   onNavigate: (view: ViewState) => void;
-  onLogin: () => void;
+  onLogin: (userName: string) => void;
 }
 
 const LoginPage: React.FC<LoginPageProps> = ({ onNavigate, onLogin }) => {
@@ -20,7 +20,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onNavigate, onLogin }) => {
     // Mock authentication delay
     setTimeout(() => {
       setIsLoading(false);
-      onLogin();
+      onLogin(email);
     }, 1500);
   };
 
@@ -0,0 +1,106 @@
+import React from 'react';
+import { MoveDiagonal, Spline, Pentagon, Check, X, Trash2, Paperclip } from 'lucide-react';
+import { ComplianceFinding, DrawingMeasurement, MeasurementKind, SheetCalibration } from '../types';
+import { MIN_MEASUREMENT_POINTS, evaluateMeasurement, formatMeasurement } from '../services/measurement';
+
+interface MeasurementPanelProps {
+  measurements: DrawingMeasurement[]; // Measurements on the active sheet
+  calibration?: SheetCalibration;
+  activeTool: MeasurementKind | null;
+  pickedPoints: number[][];
+  activeFinding?: ComplianceFinding; // Selected finding on this sheet, if any
+  onSelectTool: (kind: MeasurementKind) => void;
+  onFinish: () => void;
+  onCancel: () => void;
+  onDelete: (id: string) => void;
+  onToggleEvidence: (findingId: string, measurementId: string) => void;
+}
+
+const TOOLS: { kind: MeasurementKind; label: string; icon: React.ElementType; hint: string }[] = [
+  { kind: MeasurementKind.DISTANCE, label: 'Distance', icon: MoveDiagonal, hint: 'Click the start and end points' },
+  { kind: MeasurementKind.POLYLINE, label: 'Polyline', icon: Spline, hint: 'Click each vertex, then Finish' },
+  { kind: MeasurementKind.AREA, label: 'Area', icon: Pentagon, hint: 'Click each corner, then Finish' }
+];
+
+const MeasurementPanel: React.FC<MeasurementPanelProps> = ({
+  measurements, calibration, activeTool, pickedPoints, activeFinding,
+  onSelectTool, onFinish, onCancel, onDelete, onToggleEvidence
+}) => {
+  const tool = TOOLS.find(t => t.kind === activeTool);
+  const canFinish = activeTool !== null && pickedPoints.length >= MIN_MEASUREMENT_POINTS[activeTool];
+
+  return (
+    <div className="p-3 border-t border-slate-100 text-xs space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-slate-700">Measure</span>
+        {!calibration && <span className="text-amber-600">Calibrate the sheet to see real-world values</span>}
+      </div>
+
+      <div className="flex gap-1">
+        {TOOLS.map(({ kind, label, icon: Icon }) => (
+          <button
+            key={kind}
+            onClick={() => onSelectTool(kind)}
+            className={`flex items-center gap-1 px-2 py-1 rounded-md font-medium transition-colors
+              ${activeTool === kind ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            <Icon className="w-3.5 h-3.5" /> {label}
+          </button>
+        ))}
+      </div>
+
+      {tool && (
+        <div className="flex items-center justify-between text-slate-500">
+          <span>{tool.hint} ({pickedPoints.length} point{pickedPoints.length === 1 ? '' : 's'})</span>
+          <div className="flex gap-1">
+            {activeTool !== MeasurementKind.DISTANCE && (
+              <button
+                onClick={onFinish}
+                disabled={!canFinish}
+                className="flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded-md font-medium disabled:opacity-50"
+              >
+                <Check className="w-3.5 h-3.5" /> Finish
+              </button>
+            )}
+            <button onClick={onCancel} className="p-1 text-slate-400 hover:text-slate-700" title="Cancel">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {measurements.length > 0 && (
+        <ul className="space-y-1">
+          {measurements.map((m, i) => {
+            const value = evaluateMeasurement(m, calibration);
+            const isEvidence = activeFinding?.evidenceIds?.includes(m.id);
+            return (
+              <li key={m.id} className="flex items-center justify-between gap-2 px-2 py-1 rounded bg-slate-50">
+                <span className="text-slate-700">
+                  <span className="text-slate-400 mr-1">M{i + 1}</span>
+                  {value ? formatMeasurement(value) : `${TOOLS.find(t => t.kind === m.kind)?.label} (no scale)`}
+                </span>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {activeFinding && (
+                    <button
+                      onClick={() => onToggleEvidence(activeFinding.id, m.id)}
+                      className={`flex items-center gap-1 px-1.5 py-0.5 rounded transition-colors ${isEvidence ? 'bg-blue-100 text-blue-700' : 'text-slate-500 hover:bg-slate-200'}`}
+                      title={isEvidence ? 'Detach from the selected finding' : 'Attach to the selected finding as evidence'}
+                    >
+                      <Paperclip className="w-3 h-3" /> {isEvidence ? 'Attached' : 'Attach'}
+                    </button>
+                  )}
+                  <button onClick={() => onDelete(m.id)} className="p-1 text-slate-400 hover:text-red-600" title="Delete measurement">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MeasurementPanel;
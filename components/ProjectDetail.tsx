@@ -0,0 +1,123 @@
+import React from 'react';
+import { FileStack, GitCompare, MapPin, Upload } from 'lucide-react';
+import { Drawing, Project, ReportSummary, Revision } from '../types';
+import { ProjectStatus } from '../services/projectStore';
+import { formatRelativeTime, scanStatus } from './ScanHistory';
+
+interface ProjectDetailProps {
+  project: Project;
+  status?: ProjectStatus;
+  drawings: Drawing[]; // Drawings of this project
+  revisions: Revision[]; // Revisions of this project
+  reports: ReportSummary[];
+  onOpenReport: (reportId: string) => void;
+  onUploadRevision: (drawingId?: string) => void; // Omit the drawing to add a new one
+  onCompare: (baseReportId: string, targetReportId: string) => void;
+}
+
+const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, status, drawings, revisions, reports, onOpenReport, onUploadRevision, onCompare }) => {
+  const reportById = new Map<string, ReportSummary>(reports.map(r => [r.id, r]));
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 animate-fadeIn">
+      <div className="flex justify-between items-end">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">{project.name}</h2>
+          <p className="text-slate-500 mt-1 flex items-center gap-3 text-sm">
+            {project.location && <span className="flex items-center gap-1"><MapPin className="w-3.5 h-3.5" /> {project.location}</span>}
+            <span>{drawings.length} drawing{drawings.length === 1 ? '' : 's'}</span>
+            {status?.averageScore !== undefined && <span>Latest score {status.averageScore}/100</span>}
+          </p>
+        </div>
+        <button
+          onClick={() => onUploadRevision()}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-lg font-medium shadow-md shadow-blue-200 transition-all flex items-center gap-2"
+        >
+          <Upload className="w-5 h-5" /> Add Drawing
+        </button>
+      </div>
+
+      {drawings.length === 0 && (
+        <div className="bg-white p-8 rounded-xl border border-slate-200 text-sm text-slate-400 text-center">
+          This project has no drawings yet. Upload one to start its revision history.
+        </div>
+      )}
+
+      {drawings.map(drawing => {
+        const history = revisions.filter(r => r.drawingId === drawing.id).sort((a, b) => b.number - a.number);
+        return (
+          <div key={drawing.id} className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center">
+              <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+                <FileStack className="w-4 h-4 text-slate-500" /> {drawing.name}
+              </h3>
+              <button onClick={() => onUploadRevision(drawing.id)} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+                Upload Revision
+              </button>
+            </div>
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500 uppercase tracking-wide">
+                <tr>
+                  <th className="text-left font-medium px-6 py-2">Revision</th>
+                  <th className="text-left font-medium px-6 py-2">File</th>
+                  <th className="text-left font-medium px-6 py-2">Uploaded</th>
+                  <th className="text-right font-medium px-6 py-2">Score</th>
+                  <th className="text-right font-medium px-6 py-2">Status</th>
+                  <th className="px-6 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {history.map((revision, i) => {
+                  const report = reportById.get(revision.reportId);
+                  const revisionStatus = report && scanStatus(report);
+                  // Compare against the closest older revision whose report still exists
+                  const previous = history.slice(i + 1).find(r => reportById.has(r.reportId));
+                  return (
+                    <tr
+                      key={revision.id}
+                      onClick={() => report && onOpenReport(revision.reportId)}
+                      className={`transition-colors ${report ? 'hover:bg-slate-50 cursor-pointer' : 'opacity-60'}`}
+                    >
+                      <td className="px-6 py-3 font-medium text-slate-900">
+                        {revision.label}
+                        {i === 0 && <span className="ml-2 text-[10px] font-bold uppercase text-blue-700 bg-blue-50 px-1.5 py-0.5 rounded">Latest</span>}
+                      </td>
+                      <td className="px-6 py-3 text-slate-500 font-mono text-xs">{revision.fileName}</td>
+                      <td className="px-6 py-3 text-slate-500">{formatRelativeTime(revision.uploadedAt)}</td>
+                      <td className="px-6 py-3 text-right font-semibold text-slate-900">{report ? `${report.overallScore}/100` : '–'}</td>
+                      <td className="px-6 py-3 text-right">
+                        {revisionStatus ? (
+                          <span className={`px-3 py-1 rounded-full text-xs font-medium
+                            ${revisionStatus === 'Passed' ? 'bg-green-100 text-green-700' :
+                              revisionStatus === 'Failed' ? 'bg-red-100 text-red-700' :
+                              'bg-orange-100 text-orange-700'}`}>
+                            {revisionStatus}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-slate-400">Report deleted</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 text-right">
+                        {report && previous && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); onCompare(previous.reportId, revision.reportId); }}
+                            className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 font-medium"
+                            title={`Compare with ${previous.label}`}
+                          >
+                            <GitCompare className="w-3.5 h-3.5" /> vs {previous.label}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ProjectDetail;
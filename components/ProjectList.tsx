@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { FolderKanban, Plus, MapPin } from 'lucide-react';
+import { ProjectStatus } from '../services/projectStore';
+import { formatRelativeTime } from './ScanHistory';
+
+interface ProjectListProps {
+  statuses: ProjectStatus[];
+  onOpen: (projectId: string) => void;
+  onCreate?: (name: string, location?: string) => void; // Omit to hide the create form
+}
+
+const scoreColor = (score?: number) =>
+  score === undefined ? 'text-slate-400' : score >= 80 ? 'text-green-600' : score >= 50 ? 'text-amber-600' : 'text-red-600';
+
+const ProjectList: React.FC<ProjectListProps> = ({ statuses, onOpen, onCreate }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [location, setLocation] = useState('');
+
+  const submit = () => {
+    if (!name.trim() || !onCreate) return;
+    onCreate(name, location);
+    setName('');
+    setLocation('');
+    setIsCreating(false);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {statuses.map(({ project, drawingCount, revisionCount, averageScore, failCount, warningCount, lastUpdated }) => (
+        <button
+          key={project.id}
+          onClick={() => onOpen(project.id)}
+          className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm text-left hover:border-blue-300 hover:shadow-md transition-all"
+        >
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <h4 className="font-semibold text-slate-900 truncate">{project.name}</h4>
+              {project.location && (
+                <p className="text-xs text-slate-500 flex items-center gap-1 mt-0.5"><MapPin className="w-3 h-3" /> {project.location}</p>
+              )}
+            </div>
+            <div className={`text-2xl font-bold ${scoreColor(averageScore)}`}>{averageScore ?? '–'}</div>
+          </div>
+          <div className="flex flex-wrap gap-2 mt-4 text-xs">
+            <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">{drawingCount} drawing{drawingCount === 1 ? '' : 's'}</span>
+            <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">{revisionCount} revision{revisionCount === 1 ? '' : 's'}</span>
+            {failCount > 0 && <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-700">{failCount} failing</span>}
+            {warningCount > 0 && <span className="px-2 py-0.5 rounded-full bg-orange-100 text-orange-700">{warningCount} warnings</span>}
+          </div>
+          <p className="text-xs text-slate-400 mt-3">{lastUpdated ? `Updated ${formatRelativeTime(lastUpdated)}` : 'No revisions yet'}</p>
+        </button>
+      ))}
+
+      {onCreate && (
+        isCreating ? (
+          <div className="bg-white p-5 rounded-xl border border-blue-200 shadow-sm space-y-2">
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && submit()}
+              placeholder="Project name"
+              className="w-full text-sm border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && submit()}
+              placeholder="Location (optional)"
+              className="w-full text-sm border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex justify-end gap-2 pt-1">
+              <button onClick={() => setIsCreating(false)} className="px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
+              <button
+                onClick={submit}
+                disabled={!name.trim()}
+                className="px-3 py-1.5 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50"
+              >
+                Create
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="p-5 rounded-xl border-2 border-dashed border-slate-300 text-slate-500 hover:border-blue-400 hover:text-blue-600 transition-colors flex flex-col items-center justify-center gap-2 min-h-[140px]"
+          >
+            <Plus className="w-6 h-6" />
+            <span className="text-sm font-medium">New Project</span>
+          </button>
+        )
+      )}
+
+      {statuses.length === 0 && !onCreate && (
+        <div className="col-span-full bg-white p-6 rounded-xl border border-slate-200 text-sm text-slate-400 text-center flex flex-col items-center gap-2">
+          <FolderKanban className="w-6 h-6" />
+          No projects yet. Uploads are filed under a project and drawing.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectList;
@@ -0,0 +1,119 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, FileText, ShieldCheck } from 'lucide-react';
+import { ReportSummary } from '../types';
+import { reportsCitingClause, searchRegulations } from '../services/regulationSearch';
+
+interface RegulationSearchProps {
+  reports: ReportSummary[]; // Saved reports, searched for findings that cite each result
+  onOpenClause: (clauseId: string) => void;
+  onOpenCitingReport: (reportId: string, clauseId: string) => void;
+}
+
+const RegulationSearch: React.FC<RegulationSearchProps> = ({ reports, onOpenClause, onOpenCitingReport }) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => query.trim() ? searchRegulations(query) : [], [query]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const openClause = (clauseId: string) => {
+    onOpenClause(clauseId);
+    setIsOpen(false);
+  };
+
+  const openReport = (reportId: string, clauseId: string) => {
+    onOpenCitingReport(reportId, clauseId);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(h => Math.min(h + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(h => Math.max(h - 1, 0));
+    } else if (e.key === 'Enter' && results[highlighted]) {
+      openClause(results[highlighted].clause.id);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative w-full" ref={containerRef}>
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+      <input
+         type="text"
+         value={query}
+         onChange={(e) => { setQuery(e.target.value); setHighlighted(0); setIsOpen(true); }}
+         onFocus={() => setIsOpen(true)}
+         onKeyDown={handleKeyDown}
+         placeholder="Search regulations (e.g. SBC 201 exit width)"
+         className="w-full pl-10 pr-4 py-2 bg-slate-100 border-none rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+      />
+
+      {isOpen && query.trim() && (
+        <div className="absolute top-full left-0 mt-2 w-[32rem] max-w-[90vw] bg-white rounded-xl shadow-xl border border-slate-200 z-50 max-h-[70vh] overflow-y-auto animate-fadeIn">
+          {results.length === 0 ? (
+            <p className="p-4 text-sm text-slate-500">No clauses match "{query}".</p>
+          ) : (
+            results.map(({ clause }, i) => {
+              const citing = reportsCitingClause(reports, clause);
+              return (
+                <div
+                  key={clause.id}
+                  className={`px-4 py-3 border-b border-slate-100 last:border-b-0 ${i === highlighted ? 'bg-blue-50' : ''}`}
+                  onMouseEnter={() => setHighlighted(i)}
+                >
+                  <button onClick={() => openClause(clause.id)} className="w-full text-left">
+                    <div className="flex items-center gap-2">
+                      <FileText className="w-4 h-4 text-blue-600 flex-shrink-0" />
+                      <span className="text-sm font-semibold text-slate-900">SBC {clause.code} - {clause.number}</span>
+                      <span className="text-sm text-slate-700 truncate">{clause.title}</span>
+                    </div>
+                    {clause.titleAr && <p className="text-xs text-slate-500 mt-0.5 ml-6" dir="rtl">{clause.titleAr}</p>}
+                    <p className="text-xs text-slate-500 mt-1 ml-6 line-clamp-2">{clause.text}</p>
+                  </button>
+                  {citing.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1 mt-2 ml-6">
+                      <span className="text-[10px] text-slate-400">Cited in</span>
+                      {citing.map(({ report, count }) => (
+                        <button
+                          key={report.id}
+                          onClick={() => openReport(report.id, clause.id)}
+                          className="inline-flex items-center gap-1 text-[10px] font-medium text-slate-600 bg-slate-100 hover:bg-blue-100 hover:text-blue-700 px-1.5 py-0.5 rounded transition-colors"
+                          title={`Open ${report.fileName} at the first finding citing this clause`}
+                        >
+                          <ShieldCheck className="w-3 h-3" /> {report.fileName}{report.revisionLabel ? ` ${report.revisionLabel}` : ''} ({count})
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegulationSearch;
@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, CheckCircle2, PlusCircle, RefreshCw, Search, TrendingDown, TrendingUp, Minus, FileText } from 'lucide-react';
+import { AnalysisReport, ComplianceStatus } from '../types';
+import { FindingChange, FindingDiffEntry, diffReports } from '../services/revisionDiff';
+
+interface RevisionDiffViewProps {
+  base: AnalysisReport; // Older revision
+  target: AnalysisReport; // Newer revision
+  onOpenReport: (reportId: string) => void;
+}
+
+const CHANGE_DETAILS: Record<FindingChange, { label: string; icon: React.ElementType; badge: string }> = {
+  [FindingChange.RESOLVED]: { label: 'Resolved', icon: CheckCircle2, badge: 'bg-green-100 text-green-700' },
+  [FindingChange.NEW]: { label: 'New', icon: PlusCircle, badge: 'bg-red-100 text-red-700' },
+  [FindingChange.PERSISTING]: { label: 'Persisting', icon: RefreshCw, badge: 'bg-amber-100 text-amber-700' }
+};
+
+// Shows a signed delta; `lowerIsBetter` flips the colouring for issue counts
+const Delta = ({ value, lowerIsBetter = false }: { value: number; lowerIsBetter?: boolean }) => {
+  const improved = lowerIsBetter ? value < 0 : value > 0;
+  const Icon = value === 0 ? Minus : value > 0 ? TrendingUp : TrendingDown;
+  return (
+    <span className={`inline-flex items-center gap-1 text-sm font-semibold ${value === 0 ? 'text-slate-400' : improved ? 'text-green-600' : 'text-red-600'}`}>
+      <Icon className="w-4 h-4" /> {value > 0 ? `+${value}` : value}
+    </span>
+  );
+};
+
+const RevisionDiffView: React.FC<RevisionDiffViewProps> = ({ base, target, onOpenReport }) => {
+  const diff = useMemo(() => diffReports(base, target), [base, target]);
+  const [changeFilter, setChangeFilter] = useState<FindingChange | 'ALL'>('ALL');
+  const [categoryFilter, setCategoryFilter] = useState('ALL');
+  const [searchText, setSearchText] = useState('');
+
+  const finding = (entry: FindingDiffEntry) => (entry.current || entry.previous)!;
+  const categories = Array.from(new Set(diff.entries.map(e => finding(e).category || 'General'))).sort();
+
+  const visibleEntries = diff.entries.filter(entry => {
+    const f = finding(entry);
+    if (changeFilter !== 'ALL' && entry.change !== changeFilter) return false;
+    if (categoryFilter !== 'ALL' && (f.category || 'General') !== categoryFilter) return false;
+    if (searchText.trim()) {
+      const term = searchText.toLowerCase();
+      return f.description.toLowerCase().includes(term) || f.reference.toLowerCase().includes(term);
+    }
+    return true;
+  });
+
+  const baseLabel = base.revisionLabel || base.fileName;
+  const targetLabel = target.revisionLabel || target.fileName;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 animate-fadeIn pb-20">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <h2 className="text-2xl font-bold text-slate-900">Revision Comparison</h2>
+          <button onClick={() => base.id && onOpenReport(base.id)} className="px-3 py-1 bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs rounded-full font-medium">
+            {baseLabel}
+          </button>
+          <ArrowRight className="w-4 h-4 text-slate-400" />
+          <button onClick={() => target.id && onOpenReport(target.id)} className="px-3 py-1 bg-blue-50 hover:bg-blue-100 text-blue-700 text-xs rounded-full font-medium">
+            {targetLabel}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          <div>
+            <p className="text-xs text-slate-500 uppercase tracking-wide">Score</p>
+            <p className="text-lg font-bold text-slate-900">{base.overallScore} → {target.overallScore}</p>
+            <Delta value={diff.scoreDelta} />
+          </div>
+          <div>
+            <p className="text-xs text-slate-500 uppercase tracking-wide">Fails</p>
+            <Delta value={diff.statusDeltas[ComplianceStatus.FAIL]} lowerIsBetter />
+          </div>
+          <div>
+            <p className="text-xs text-slate-500 uppercase tracking-wide">Warnings</p>
+            <Delta value={diff.statusDeltas[ComplianceStatus.WARNING]} lowerIsBetter />
+          </div>
+          {[FindingChange.RESOLVED, FindingChange.NEW, FindingChange.PERSISTING].map(change => {
+            const { label, icon: Icon } = CHANGE_DETAILS[change];
+            return (
+              <div key={change}>
+                <p className="text-xs text-slate-500 uppercase tracking-wide">{label}</p>
+                <p className="text-lg font-bold text-slate-900 flex items-center gap-1.5"><Icon className="w-4 h-4 text-slate-400" /> {diff.counts[change]}</p>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="Search description or reference..."
+            className="w-full pl-9 pr-4 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div className="flex gap-1">
+          {(['ALL', FindingChange.RESOLVED, FindingChange.NEW, FindingChange.PERSISTING] as const).map(change => (
+            <button
+              key={change}
+              onClick={() => setChangeFilter(change)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors
+                ${changeFilter === change ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+            >
+              {change === 'ALL' ? 'All' : CHANGE_DETAILS[change].label}
+            </button>
+          ))}
+        </div>
+        <select
+          value={categoryFilter}
+          onChange={(e) => setCategoryFilter(e.target.value)}
+          className="text-sm border border-slate-200 rounded-lg px-3 py-2 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="ALL">All categories</option>
+          {categories.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+      </div>
+
+      {/* Entries */}
+      <div className="space-y-3">
+        {visibleEntries.length === 0 && (
+          <p className="text-sm text-slate-400 text-center py-8">No findings match these filters.</p>
+        )}
+        {visibleEntries.map((entry, i) => {
+          const f = finding(entry);
+          const { label, badge } = CHANGE_DETAILS[entry.change];
+          return (
+            <div key={`${entry.change}-${f.id}-${i}`} className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+              <div className="flex justify-between items-start gap-4 mb-2">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded font-bold uppercase text-[10px] tracking-wider ${badge}`}>{label}</span>
+                  <span className="text-xs text-slate-500">{f.category || 'General'}</span>
+                </div>
+                <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">
+                  {entry.statusChanged ? `${entry.previous!.status} → ${entry.current!.status}` : f.status}
+                </span>
+              </div>
+              <h4 className="font-medium text-slate-900 text-sm mb-2">{f.description}</h4>
+              {entry.change === FindingChange.PERSISTING && entry.previous!.description !== entry.current!.description && (
+                <p className="text-xs text-slate-400 mb-2">In {baseLabel}: {entry.previous!.description}</p>
+              )}
+              <span className="inline-flex items-center text-[10px] text-slate-500 bg-slate-50 px-2 py-1 rounded border border-slate-200">
+                <FileText className="w-3 h-3 mr-1" /> {f.reference}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RevisionDiffView;
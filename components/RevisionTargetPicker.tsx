@@ -0,0 +1,89 @@
+import React from 'react';
+import { FolderOpen } from 'lucide-react';
+import { Drawing, Project, Revision, UploadTarget } from '../types';
+import { formatRevisionLabel } from '../services/projectStore';
+
+interface RevisionTargetPickerProps {
+  projects: Project[];
+  drawings: Drawing[];
+  revisions: Revision[];
+  value: UploadTarget;
+  onChange: (target: UploadTarget) => void;
+  error?: string | null;
+}
+
+const NEW_OPTION = '__new';
+
+const RevisionTargetPicker: React.FC<RevisionTargetPickerProps> = ({ projects, drawings, revisions, value, onChange, error }) => {
+  const projectDrawings = drawings.filter(d => d.projectId === value.projectId);
+  const nextNumber = value.drawingId
+    ? revisions.filter(r => r.drawingId === value.drawingId).reduce((max, r) => Math.max(max, r.number), 0) + 1
+    : 1;
+
+  const inputClass = "w-full text-sm border border-slate-200 rounded-lg px-3 py-2 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+      <h4 className="font-semibold text-sm text-slate-900 flex items-center gap-1.5 mb-3">
+        <FolderOpen className="w-4 h-4 text-slate-500" /> File this upload under
+      </h4>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-slate-500">Project</label>
+          <select
+            value={value.projectId || NEW_OPTION}
+            onChange={(e) => {
+              const projectId = e.target.value === NEW_OPTION ? undefined : e.target.value;
+              onChange({ ...value, projectId, drawingId: undefined });
+            }}
+            className={inputClass}
+          >
+            {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            <option value={NEW_OPTION}>New project…</option>
+          </select>
+          {!value.projectId && (
+            <input
+              value={value.newProjectName || ''}
+              onChange={(e) => onChange({ ...value, newProjectName: e.target.value })}
+              placeholder="Project name"
+              className={inputClass}
+            />
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-slate-500">Drawing</label>
+          <select
+            value={value.drawingId || NEW_OPTION}
+            onChange={(e) => onChange({ ...value, drawingId: e.target.value === NEW_OPTION ? undefined : e.target.value })}
+            className={inputClass}
+          >
+            {projectDrawings.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+            <option value={NEW_OPTION}>New drawing…</option>
+          </select>
+          {!value.drawingId && (
+            <input
+              value={value.newDrawingName || ''}
+              onChange={(e) => onChange({ ...value, newDrawingName: e.target.value })}
+              placeholder="Name from file"
+              className={inputClass}
+            />
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-slate-500">Revision</label>
+          <input
+            value={value.revisionLabel || ''}
+            onChange={(e) => onChange({ ...value, revisionLabel: e.target.value })}
+            placeholder={value.drawingId ? formatRevisionLabel(nextNumber) : 'From file name or Rev01'}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default RevisionTargetPicker;
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { Ruler, Crosshair, X, Check, Paperclip } from 'lucide-react';
+import { CalibrationMethod, ComplianceFinding, DrawingSheet, MeasuredValue, SheetCalibration } from '../types';
+import {
+  ImageSize, DEFAULT_SCAN_DPI, calibrateFromPoints, calibrateFromScale, parseScale, measureBox, formatLength
+} from '../services/measurement';
+
+interface ScaleCalibrationPanelProps {
+  sheet: DrawingSheet;
+  calibration?: SheetCalibration;
+  imageSize?: ImageSize;
+  isPicking: boolean;
+  pickedPoints: number[][]; // Normalized [y, x] points clicked on the drawing
+  activeFinding?: ComplianceFinding; // Selected finding on this sheet, if any
+  onStartPicking: () => void;
+  onCancelPicking: () => void;
+  onSave: (calibration: SheetCalibration) => void;
+  onAttachMeasurement: (findingId: string, measurement: MeasuredValue) => void;
+}
+
+type Dimension = 'length' | 'width';
+
+const METHOD_LABELS: Record<CalibrationMethod, string> = {
+  [CalibrationMethod.TWO_POINT]: 'Two-point',
+  [CalibrationMethod.SHEET_SCALE]: 'Sheet scale',
+  [CalibrationMethod.CAD_UNITS]: 'CAD units'
+};
+
+const ScaleCalibrationPanel: React.FC<ScaleCalibrationPanelProps> = ({
+  sheet, calibration, imageSize, isPicking, pickedPoints, activeFinding,
+  onStartPicking, onCancelPicking, onSave, onAttachMeasurement
+}) => {
+  const [mode, setMode] = useState<'points' | 'scale'>('points');
+  const [knownDistance, setKnownDistance] = useState('');
+  const [scaleInput, setScaleInput] = useState('1:100');
+  const [dpi, setDpi] = useState(String(DEFAULT_SCAN_DPI));
+  const [error, setError] = useState<string | null>(null);
+
+  const [dimension, setDimension] = useState<Dimension>('length');
+  const [limit, setLimit] = useState('');
+  const [limitType, setLimitType] = useState<'max' | 'min'>('max');
+
+  const saveFromPoints = () => {
+    const meters = parseFloat(knownDistance);
+    if (!imageSize || pickedPoints.length < 2) return;
+    try {
+      onSave(calibrateFromPoints(sheet.index, pickedPoints[0], pickedPoints[1], meters, imageSize));
+      setKnownDistance('');
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Calibration failed.');
+    }
+  };
+
+  const saveFromScale = () => {
+    const denominator = parseScale(scaleInput);
+    if (!denominator || !imageSize) {
+      setError('Enter a scale such as 1:100.');
+      return;
+    }
+    // Rasterized PDFs know their paper size; plain images need the scan resolution
+    const scanDpi = parseFloat(dpi);
+    if (sheet.paperMmPerPixel === undefined && !(scanDpi > 0)) {
+      setError('Enter the DPI the drawing was scanned at.');
+      return;
+    }
+    const paperMmPerPixel = sheet.paperMmPerPixel ?? 25.4 / scanDpi;
+    onSave(calibrateFromScale(sheet.index, denominator, paperMmPerPixel, imageSize, sheet.paperMmPerPixel === undefined ? scanDpi : undefined));
+    setError(null);
+  };
+
+  const boxSize = calibration && activeFinding?.boundingBox ? measureBox(activeFinding.boundingBox, calibration) : null;
+  const measuredMeters = boxSize
+    ? (dimension === 'length' ? Math.max(boxSize.width, boxSize.height) : Math.min(boxSize.width, boxSize.height))
+    : 0;
+
+  const attachMeasurement = () => {
+    if (!activeFinding || !boxSize) return;
+    const limitValue = parseFloat(limit);
+    onAttachMeasurement(activeFinding.id, {
+      label: `${activeFinding.category || 'Element'} ${dimension}`,
+      value: +measuredMeters.toFixed(2),
+      unit: 'm',
+      limit: isFinite(limitValue) ? limitValue : undefined,
+      limitType: isFinite(limitValue) ? limitType : undefined
+    });
+    setLimit('');
+  };
+
+  return (
+    <div className="p-3 border-t border-slate-100 text-xs space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 font-semibold text-slate-700">
+          <Ruler className="w-3.5 h-3.5 text-slate-500" /> Scale
+        </span>
+        {calibration ? (
+          <span className="text-slate-500">
+            {METHOD_LABELS[calibration.method]} · {calibration.description} · 1px = {formatLength(calibration.metersPerPixel)}
+          </span>
+        ) : (
+          <span className="text-amber-600">Not calibrated</span>
+        )}
+      </div>
+
+      <div className="flex gap-1">
+        {(['points', 'scale'] as const).map(m => (
+          <button
+            key={m}
+            onClick={() => { setMode(m); setError(null); if (m === 'scale' && isPicking) onCancelPicking(); }}
+            className={`px-2 py-1 rounded-md font-medium transition-colors ${mode === m ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            {m === 'points' ? 'Known distance' : 'Sheet scale'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'points' ? (
+        <div className="space-y-2">
+          {!isPicking ? (
+            <button
+              onClick={onStartPicking}
+              disabled={!imageSize}
+              className="flex items-center gap-1.5 text-blue-600 hover:bg-blue-50 px-2 py-1 rounded transition-colors disabled:opacity-50"
+            >
+              <Crosshair className="w-3.5 h-3.5" /> Pick two points on the drawing
+            </button>
+          ) : (
+            <div className="flex items-center justify-between text-slate-500">
+              <span>{pickedPoints.length < 2 ? `Click point ${pickedPoints.length + 1} of 2 on the drawing` : 'Enter the real distance between the points'}</span>
+              <button onClick={onCancelPicking} className="text-slate-400 hover:text-slate-700" title="Cancel">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+          {isPicking && pickedPoints.length === 2 && (
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={knownDistance}
+                onChange={(e) => setKnownDistance(e.target.value)}
+                placeholder="Distance (m)"
+                className="flex-1 px-2 py-1 border border-slate-200 rounded-md focus:outline-none focus:border-blue-400"
+              />
+              <button
+                onClick={saveFromPoints}
+                disabled={!knownDistance}
+                className="flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded-md font-medium disabled:opacity-50"
+              >
+                <Check className="w-3.5 h-3.5" /> Apply
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <input
+            value={scaleInput}
+            onChange={(e) => setScaleInput(e.target.value)}
+            placeholder="1:100"
+            className="w-20 px-2 py-1 border border-slate-200 rounded-md focus:outline-none focus:border-blue-400"
+          />
+          {sheet.paperMmPerPixel === undefined && (
+            <input
+              type="number"
+              min="1"
+              value={dpi}
+              onChange={(e) => setDpi(e.target.value)}
+              title="Scan resolution (DPI)"
+              className="w-20 px-2 py-1 border border-slate-200 rounded-md focus:outline-none focus:border-blue-400"
+            />
+          )}
+          <button
+            onClick={saveFromScale}
+            disabled={!imageSize}
+            className="flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded-md font-medium disabled:opacity-50"
+          >
+            <Check className="w-3.5 h-3.5" /> Apply
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      {/* Measure the selected finding's zone once the sheet has a scale */}
+      {calibration && activeFinding && boxSize && (
+        <div className="pt-2 border-t border-slate-100 space-y-2">
+          <p className="text-slate-500">
+            Selected zone: {formatLength(boxSize.width)} × {formatLength(boxSize.height)}
+          </p>
+          <div className="flex flex-wrap gap-2 items-center">
+            <select
+              value={dimension}
+              onChange={(e) => setDimension(e.target.value as Dimension)}
+              className="px-2 py-1 border border-slate-200 rounded-md bg-white"
+            >
+              <option value="length">Length {formatLength(Math.max(boxSize.width, boxSize.height))}</option>
+              <option value="width">Width {formatLength(Math.min(boxSize.width, boxSize.height))}</option>
+            </select>
+            <select
+              value={limitType}
+              onChange={(e) => setLimitType(e.target.value as 'max' | 'min')}
+              className="px-2 py-1 border border-slate-200 rounded-md bg-white"
+            >
+              <option value="max">Max</option>
+              <option value="min">Min</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              placeholder="Limit (m)"
+              className="w-24 px-2 py-1 border border-slate-200 rounded-md focus:outline-none focus:border-blue-400"
+            />
+            <button
+              onClick={attachMeasurement}
+              className="flex items-center gap-1 text-blue-600 hover:bg-blue-50 px-2 py-1 rounded transition-colors"
+            >
+              <Paperclip className="w-3.5 h-3.5" /> Attach to finding
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScaleCalibrationPanel;
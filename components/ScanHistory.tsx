@@ -0,0 +1,88 @@
+import React from 'react';
+import { ShieldCheck, Trash2 } from 'lucide-react';
+import { ReportSummary } from '../types';
+
+interface ScanHistoryProps {
+  reports: ReportSummary[];
+  onOpen: (id: string) => void;
+  onDelete?: (id: string) => void; // Omit to hide the delete action
+  emptyMessage?: string;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// e.g., "2 hrs ago"; older scans show the date
+export const formatRelativeTime = (iso: string, now = Date.now()) => {
+  const elapsed = now - new Date(iso).getTime();
+  if (elapsed < MINUTE) return 'Just now';
+  if (elapsed < HOUR) return `${Math.floor(elapsed / MINUTE)} min ago`;
+  if (elapsed < DAY) {
+    const hours = Math.floor(elapsed / HOUR);
+    return `${hours} hr${hours === 1 ? '' : 's'} ago`;
+  }
+  if (elapsed < 7 * DAY) {
+    const days = Math.floor(elapsed / DAY);
+    return `${days} day${days === 1 ? '' : 's'} ago`;
+  }
+  return new Date(iso).toLocaleDateString();
+};
+
+export const scanStatus = (report: ReportSummary) =>
+  report.failCount > 0 ? 'Failed' : report.warningCount > 0 ? 'Warnings' : 'Passed';
+
+const ScanHistory: React.FC<ScanHistoryProps> = ({ reports, onOpen, onDelete, emptyMessage = 'No scans yet. Upload a drawing to get started.' }) => {
+  if (reports.length === 0) {
+    return <p className="px-6 py-8 text-sm text-slate-400 text-center">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="divide-y divide-slate-100">
+      {reports.map(report => {
+        const status = scanStatus(report);
+        return (
+          <div
+            key={report.id}
+            onClick={() => onOpen(report.id)}
+            className="px-6 py-4 flex items-center justify-between hover:bg-slate-50 transition-colors cursor-pointer group"
+          >
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="p-2 bg-slate-100 rounded-lg text-slate-500">
+                <ShieldCheck className="w-5 h-5" />
+              </div>
+              <div className="min-w-0">
+                <p className="font-medium text-slate-900 truncate">
+                  {report.fileName}
+                  {report.revisionLabel && <span className="ml-2 text-[10px] font-medium text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded">{report.revisionLabel}</span>}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {formatRelativeTime(report.scanDate)} · Score {report.overallScore}/100 · {report.findingCount} findings
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3 flex-shrink-0">
+              <span className={`px-3 py-1 rounded-full text-xs font-medium
+                ${status === 'Passed' ? 'bg-green-100 text-green-700' :
+                  status === 'Failed' ? 'bg-red-100 text-red-700' :
+                  'bg-orange-100 text-orange-700'}`}>
+                {status}
+              </span>
+              {onDelete && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDelete(report.id); }}
+                  className="p-1.5 text-slate-300 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors opacity-0 group-hover:opacity-100"
+                  title="Delete scan"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ScanHistory;
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { Calculator, ChevronRight, RotateCcw } from 'lucide-react';
+import { AnalysisReport, ComplianceStatus, FindingSeverity, ScoringConfig } from '../types';
+import { DEFAULT_SCORING, computeScore, loadScoringConfig, saveScoringConfig } from '../services/scoring';
+import { SEVERITY_LABELS, SEVERITY_ORDER } from '../services/severity';
+
+interface ScoreBreakdownPanelProps {
+  report: AnalysisReport;
+  onApply?: (config: ScoringConfig) => void; // Omit for read-only reports
+}
+
+const STATUS_LABELS: Record<ComplianceStatus, string> = {
+  [ComplianceStatus.FAIL]: 'Fail',
+  [ComplianceStatus.WARNING]: 'Warning',
+  [ComplianceStatus.NEEDS_CLARIFICATION]: 'Clarification',
+  [ComplianceStatus.PASS]: 'Pass'
+};
+
+const formatPoints = (points: number) => points.toFixed(points % 1 === 0 ? 0 : 1);
+
+interface WeightInputProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const WeightInput: React.FC<WeightInputProps> = ({ label, value, onChange }) => (
+  <label className="flex items-center justify-between gap-2">
+    <span className="text-slate-600 truncate">{label}</span>
+    <input
+      type="number"
+      min={0}
+      step={0.25}
+      value={value}
+      onChange={(e) => onChange(Math.max(0, parseFloat(e.target.value) || 0))}
+      className="w-16 px-1.5 py-0.5 border border-slate-200 rounded text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+    />
+  </label>
+);
+
+const ScoreBreakdownPanel: React.FC<ScoreBreakdownPanelProps> = ({ report, onApply }) => {
+  const savedConfig = report.scoringConfig || loadScoringConfig();
+  const [draft, setDraft] = useState<ScoringConfig>(savedConfig);
+  const [isEditing, setIsEditing] = useState(false);
+  const [saveAsDefault, setSaveAsDefault] = useState(false);
+
+  const config = isEditing ? draft : savedConfig;
+  const breakdown = useMemo(() => computeScore(report.findings, config), [report.findings, config]);
+  const categories = Array.from(new Set<string>(report.findings.map(f => f.category || 'General'))).sort();
+  // Reports analyzed before local scoring still show the model's number as their score
+  const isModelScored = !report.scoringConfig;
+  const modelScore = report.modelScore ?? (isModelScored ? report.overallScore : undefined);
+
+  const apply = () => {
+    if (saveAsDefault) saveScoringConfig(draft);
+    onApply?.(draft);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 text-xs">
+      <div className="flex items-center gap-2 mb-3 text-slate-900">
+        <Calculator className="w-5 h-5" />
+        <h3 className="font-semibold text-base">Score Breakdown</h3>
+      </div>
+
+      <div className="space-y-1 mb-3">
+        <div className="flex justify-between text-slate-600"><span>Starting score</span><span>100</span></div>
+        {breakdown.byCategory.map(c => (
+          <div key={c.category} className="flex justify-between text-slate-600">
+            <span className="truncate">{c.category} <span className="text-slate-400">({c.count} × weight {c.weight})</span></span>
+            <span className="text-red-600 flex-shrink-0">−{formatPoints(c.points)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between font-semibold text-slate-900 pt-1 border-t border-slate-100">
+          <span>{isEditing ? 'Preview' : 'Computed score'}</span>
+          <span>{breakdown.score}/100</span>
+        </div>
+        {modelScore !== undefined && (
+          <div className="flex justify-between text-slate-400"><span>Model suggested</span><span>{modelScore}/100</span></div>
+        )}
+      </div>
+
+      {isModelScored && onApply && !isEditing && (
+        <button onClick={() => onApply(savedConfig)} className="w-full mb-2 px-2 py-1.5 rounded-md bg-blue-50 text-blue-700 hover:bg-blue-100 font-medium">
+          Use computed score for this report
+        </button>
+      )}
+
+      {onApply && (
+        <button
+          onClick={() => { setDraft(savedConfig); setIsEditing(!isEditing); }}
+          className="flex items-center gap-1 text-slate-500 hover:text-slate-800 font-medium"
+        >
+          <ChevronRight className={`w-3.5 h-3.5 transition-transform ${isEditing ? 'rotate-90' : ''}`} /> Adjust weights
+        </button>
+      )}
+
+      {isEditing && (
+        <div className="mt-3 space-y-3 animate-fadeIn">
+          <div className="space-y-1">
+            <p className="font-semibold text-slate-700">Points per finding</p>
+            {(Object.keys(STATUS_LABELS) as ComplianceStatus[]).map(status => (
+              <WeightInput key={status} label={STATUS_LABELS[status]} value={draft.statusPenalties[status]}
+                onChange={(value) => setDraft(d => ({ ...d, statusPenalties: { ...d.statusPenalties, [status]: value } }))} />
+            ))}
+          </div>
+          <div className="space-y-1">
+            <p className="font-semibold text-slate-700">Severity multiplier</p>
+            {SEVERITY_ORDER.map(severity => (
+              <WeightInput key={severity} label={SEVERITY_LABELS[severity]} value={draft.severityMultipliers[severity]}
+                onChange={(value) => setDraft(d => ({ ...d, severityMultipliers: { ...d.severityMultipliers, [severity]: value } }))} />
+            ))}
+          </div>
+          <div className="space-y-1">
+            <p className="font-semibold text-slate-700">Category weight</p>
+            {categories.map(category => (
+              <WeightInput key={category} label={category} value={draft.categoryWeights[category] ?? draft.defaultCategoryWeight}
+                onChange={(value) => setDraft(d => ({ ...d, categoryWeights: { ...d.categoryWeights, [category]: value } }))} />
+            ))}
+            <WeightInput label="Other categories" value={draft.defaultCategoryWeight}
+              onChange={(value) => setDraft(d => ({ ...d, defaultCategoryWeight: value }))} />
+          </div>
+
+          <label className="flex items-center gap-2 text-slate-600">
+            <input type="checkbox" checked={saveAsDefault} onChange={(e) => setSaveAsDefault(e.target.checked)} />
+            Use these weights for new reports
+          </label>
+          <div className="flex justify-between gap-1">
+            <button onClick={() => setDraft(DEFAULT_SCORING)} className="flex items-center gap-1 px-2 py-1 rounded-md text-slate-500 hover:bg-slate-100">
+              <RotateCcw className="w-3 h-3" /> Defaults
+            </button>
+            <div className="flex gap-1">
+              <button onClick={() => setIsEditing(false)} className="px-2 py-1 rounded-md text-slate-600 hover:bg-slate-100">Cancel</button>
+              <button onClick={apply} className="px-2 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-white font-medium">Apply</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoreBreakdownPanel;
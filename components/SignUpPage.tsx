@@ -4,7 +4,7 @@ import { ViewState } from '../types';
 
 interface SignUpPageProps {
   onNavigate: (view: ViewState) => void;
-  onRegister: () => void;
+  onRegister: (userName: string) => void;
 }
 
 const SignUpPage: React.FC<SignUpPageProps> = ({ onNavigate, onRegister }) => {
@@ -24,7 +24,7 @@ const SignUpPage: React.FC<SignUpPageProps> = ({ onNavigate, onRegister }) => {
     // Mock registration delay
     setTimeout(() => {
       setIsLoading(false);
-      onRegister();
+      onRegister(formData.name);
     }, 1500);
   };
 
@@ -0,0 +1,80 @@
+import { AnalysisError, AnalysisErrorKind } from "../types";
+import { ReportValidationError } from "./reportValidator";
+import { ImageDecodeError } from "./imagePreprocessing";
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+
+const ERROR_MESSAGES: Record<AnalysisErrorKind, string> = {
+  [AnalysisErrorKind.NETWORK]: "The analysis service could not be reached. Check your connection and try again.",
+  [AnalysisErrorKind.QUOTA]: "The analysis service is rate limited or out of quota. Wait a moment and try again.",
+  [AnalysisErrorKind.INVALID_IMAGE]: "The drawing could not be processed. Upload a clearer image or a different file format.",
+  [AnalysisErrorKind.PARSE]: "The analysis service returned a response that could not be read.",
+  [AnalysisErrorKind.UNKNOWN]: "The analysis failed for an unexpected reason."
+};
+
+// Kinds worth retrying automatically; an invalid image will fail the same way every time
+const RETRYABLE: AnalysisErrorKind[] = [AnalysisErrorKind.NETWORK, AnalysisErrorKind.QUOTA, AnalysisErrorKind.PARSE];
+
+/** Thrown by analyzeDrawingImage; carries the classified error for the UI. */
+export class AnalysisFailure extends Error {
+  readonly error: AnalysisError;
+
+  constructor(error: AnalysisError) {
+    super(error.message);
+    this.name = 'AnalysisFailure';
+    this.error = error;
+  }
+}
+
+const classifyKind = (error: unknown): AnalysisErrorKind => {
+  if (error instanceof ReportValidationError || error instanceof SyntaxError) return AnalysisErrorKind.PARSE;
+  if (error instanceof ImageDecodeError) return AnalysisErrorKind.INVALID_IMAGE;
+
+  // Provider SDKs (e.g. @google/genai ApiError) expose the HTTP status
+  const status = typeof error === 'object' && error !== null ? (error as { status?: unknown }).status : undefined;
+  const message = error instanceof Error ? error.message.toLowerCase() : '';
+
+  if (status === 429 || message.includes('quota') || message.includes('resource_exhausted')) return AnalysisErrorKind.QUOTA;
+  if (status === 400 && (message.includes('image') || message.includes('mime') || message.includes('invalid_argument'))) {
+    return AnalysisErrorKind.INVALID_IMAGE;
+  }
+  if (typeof status === 'number' && status >= 500) return AnalysisErrorKind.NETWORK;
+  if (error instanceof TypeError && message.includes('fetch')) return AnalysisErrorKind.NETWORK;
+  if (message.includes('network') || message.includes('timeout') || message.includes('failed to fetch')) return AnalysisErrorKind.NETWORK;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return AnalysisErrorKind.NETWORK;
+
+  return AnalysisErrorKind.UNKNOWN;
+};
+
+export const classifyAnalysisError = (error: unknown, attempts = 1): AnalysisError => {
+  if (error instanceof AnalysisFailure) return error.error;
+  const kind = classifyKind(error);
+  return {
+    kind,
+    message: ERROR_MESSAGES[kind],
+    retryable: RETRYABLE.includes(kind),
+    attempts
+  };
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs `task`, retrying retryable failures with exponential backoff (1s, 2s, ...).
+ * Rejects with an AnalysisFailure once attempts are exhausted or the error is not retryable.
+ */
+export const withRetry = async <T,>(task: () => Promise<T>, maxAttempts = MAX_ATTEMPTS): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      const classified = classifyAnalysisError(error, attempt);
+      console.error(`Analysis attempt ${attempt} failed (${classified.kind})`, error);
+      if (!classified.retryable || attempt >= maxAttempts) {
+        throw new AnalysisFailure(classified);
+      }
+      await delay(BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+};
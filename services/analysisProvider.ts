@@ -0,0 +1,60 @@
+import { BuildingMetadata, ComplianceFinding, DrawingVectorData, PlanData, SbcClause } from "../types";
+import { geminiAnalysisProvider, geminiChatProvider } from "./geminiProvider";
+import { localAnalysisProvider, localChatProvider } from "./localProvider";
+
+export type ProviderId = 'gemini' | 'local';
+
+export interface AnalysisRequest {
+  imageBase64: string;
+  mimeType: string; // Detected from the image bytes, never assumed
+  fileName: string;
+  vectorData?: DrawingVectorData;
+  building?: BuildingMetadata; // Occupancy, sprinklers and the like, as entered at upload
+}
+
+// Validated result for one sheet; analysisService adds rule findings and report metadata
+export interface AnalysisResult {
+  overallScore: number;
+  summary: string;
+  findings: ComplianceFinding[];
+  planData?: PlanData;
+}
+
+export type ChatHistory = { role: string, parts: { text: string }[] }[];
+
+export interface AnalysisProvider {
+  id: ProviderId;
+  label: string;
+  analyzeDrawing: (request: AnalysisRequest) => Promise<unknown>; // Raw model output, checked by validateAnalysisResult
+}
+
+export interface ChatProvider {
+  id: ProviderId;
+  label: string;
+  // `clauses` are retrieved from the local library; answers should cite them as "[SBC 201 - 1020.4]"
+  sendMessage: (history: ChatHistory, message: string, clauses: SbcClause[]) => Promise<string | undefined>;
+}
+
+const ANALYSIS_PROVIDERS: Record<ProviderId, AnalysisProvider> = {
+  gemini: geminiAnalysisProvider,
+  local: localAnalysisProvider
+};
+
+const CHAT_PROVIDERS: Record<ProviderId, ChatProvider> = {
+  gemini: geminiChatProvider,
+  local: localChatProvider
+};
+
+// ANALYSIS_PROVIDER picks the provider explicitly; without it we fall back to the offline provider when no key is set
+const resolveConfiguredProvider = (): ProviderId => {
+  const configured = process.env.ANALYSIS_PROVIDER;
+  if (configured === 'gemini' || configured === 'local') return configured;
+  return process.env.API_KEY ? 'gemini' : 'local';
+};
+
+// Chosen once from config at startup; there is no runtime switch
+const activeProviderId: ProviderId = resolveConfiguredProvider();
+
+export const getAnalysisProvider = (): AnalysisProvider => ANALYSIS_PROVIDERS[activeProviderId];
+
+export const getChatProvider = (): ChatProvider => CHAT_PROVIDERS[activeProviderId];
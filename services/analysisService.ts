@@ -0,0 +1,162 @@
+import { AnalysisOptions, AnalysisOutcome, AnalysisReport, BuildingMetadata, ComplianceFinding, DrawingSheet, DrawingVectorData, FindingSource, PlanData } from "../types";
+import { ChatHistory, getAnalysisProvider, getChatProvider } from "./analysisProvider";
+import { runRuleEngine } from "./ruleEngine";
+import { validateAnalysisResult } from "./reportValidator";
+import { classifyAnalysisError, withRetry } from "./analysisErrors";
+import { mapBoxFromTile, mapPlanFromTile, mergeOverlappingFindings, mergePlanData, splitIntoTiles } from "./tiling";
+import { detectImageMimeType, mapBoxToSource, mapPlanToSource, preprocessImage } from "./imagePreprocessing";
+import { scoreReport } from "./scoring";
+import { GroundedAnswer, groundAnswer, retrieveClauses } from "./chatGrounding";
+
+// One provider request; validation runs inside the retry so an unreadable response is requested again
+const requestAnalysis = (imageBase64: string, fileName: string, vectorData?: DrawingVectorData, building?: BuildingMetadata) =>
+  withRetry(async () =>
+    validateAnalysisResult(await getAnalysisProvider().analyzeDrawing({
+      imageBase64,
+      mimeType: detectImageMimeType(imageBase64),
+      fileName,
+      vectorData,
+      building
+    }))
+  );
+
+/**
+ * Analyzes a single sheet, retrying transient failures. With tiling enabled, overlapping
+ * tiles are analyzed after the whole-sheet pass and their findings merged in.
+ * Throws AnalysisFailure when the sheet cannot be analyzed; never returns a placeholder report.
+ */
+export const analyzeDrawingImage = async (
+  base64Image: string,
+  fileName: string,
+  vectorData?: DrawingVectorData,
+  options: AnalysisOptions = {}
+): Promise<AnalysisReport> => {
+  const { result: { planData: sheetPlan, findings: sheetFindings, ...data }, diagnostics } = await requestAnalysis(base64Image, fileName, vectorData, options.building);
+  let findings = sheetFindings;
+  let planData: PlanData | undefined = sheetPlan;
+
+  if (options.tiling) {
+    const plans = sheetPlan ? [sheetPlan] : [];
+    const passes = [sheetFindings];
+    for (const tile of await splitIntoTiles(base64Image, options.tiling)) {
+      const tileAnalysis = await requestAnalysis(tile.imageBase64, `${fileName} (${tile.label})`, undefined, options.building);
+      const prefix = `t${tile.row + 1}${tile.col + 1}`;
+      passes.push(tileAnalysis.result.findings.map(f => ({
+        ...f,
+        id: `${prefix}-${f.id}`,
+        boundingBox: f.boundingBox && mapBoxFromTile(f.boundingBox, tile.region)
+      })));
+      if (tileAnalysis.result.planData) plans.push(mapPlanFromTile(tileAnalysis.result.planData, tile.region, prefix));
+      diagnostics.push(...tileAnalysis.diagnostics.map(d => ({
+        ...d,
+        findingId: d.findingId && `${prefix}-${d.findingId}`,
+        field: `${tile.label}: ${d.field}`
+      })));
+    }
+    // Whole-sheet findings come first, so they win over their tile duplicates
+    findings = mergeOverlappingFindings(passes);
+    planData = plans.length > 0 ? mergePlanData(plans) : undefined;
+  }
+
+  const aiFindings: ComplianceFinding[] = findings.map(f => ({ ...f, source: FindingSource.AI }));
+  const ruleFindings = planData ? runRuleEngine(planData, options.building) : [];
+  return {
+    ...data,
+    building: options.building,
+    findings: [...ruleFindings, ...aiFindings],
+    planData,
+    diagnostics,
+    scanDate: new Date().toISOString(),
+    fileName: fileName,
+    imageBase64: base64Image
+  };
+};
+
+/**
+ * Answers a consultant question from the clauses the local library retrieves for it, and
+ * reports whether the answer actually cites any of them. Resolves undefined on an empty reply.
+ */
+export const sendChatMessage = async (history: ChatHistory, newMessage: string): Promise<GroundedAnswer | undefined> => {
+  const clauses = retrieveClauses(newMessage);
+  const text = await getChatProvider().sendMessage(history, newMessage, clauses);
+  return text ? groundAnswer(text, clauses) : undefined;
+};
+
+/**
+ * Analyzes one sheet of an upload. With preprocessing enabled the cleaned-up image is sent
+ * to the provider and every box is mapped back, so the report still shows the original sheet.
+ * CAD-rendered sheets are skipped: their vector positions refer to the unprocessed image.
+ */
+const analyzeSheet = async (sheet: DrawingSheet, fileName: string, options: AnalysisOptions): Promise<AnalysisReport> => {
+  if (!options.preprocessing || sheet.vectorData) {
+    return analyzeDrawingImage(sheet.imageBase64, fileName, sheet.vectorData, options);
+  }
+  const processed = await preprocessImage(sheet.imageBase64, options.preprocessing);
+  const report = await analyzeDrawingImage(processed.imageBase64, fileName, undefined, options);
+  return {
+    ...report,
+    findings: report.findings.map(f => ({
+      ...f,
+      boundingBox: f.boundingBox && mapBoxToSource(f.boundingBox, processed.transform)
+    })),
+    planData: report.planData && mapPlanToSource(report.planData, processed.transform),
+    imageBase64: sheet.imageBase64,
+    preprocessingSteps: processed.steps
+  };
+};
+
+/**
+ * Analyzes every sheet of an upload and merges the results into one report, scored locally
+ * from its findings. If any sheet fails the whole scan fails, so a partial result is never
+ * presented as a report.
+ */
+export const analyzeDrawingSet = async (sheets: DrawingSheet[], fileName: string, options: AnalysisOptions = {}): Promise<AnalysisOutcome> => {
+  if (sheets.length === 1) {
+    try {
+      const [sheet] = sheets;
+      const report = await analyzeSheet(sheet, fileName, options);
+      // Keep the sheet only when it carries a known scale; otherwise imageBase64 is enough
+      const hasScale = sheet.metersPerPixel !== undefined || sheet.paperMmPerPixel !== undefined;
+      return { ok: true, report: scoreReport(hasScale ? { ...report, sheets: [{ ...sheet, planData: report.planData }] } : report) };
+    } catch (error) {
+      return { ok: false, error: classifyAnalysisError(error) };
+    }
+  }
+
+  // Sheets are analyzed one at a time so each request keeps the full image resolution
+  const sheetReports: AnalysisReport[] = [];
+  for (const sheet of sheets) {
+    try {
+      sheetReports.push(await analyzeSheet(sheet, `${fileName} (${sheet.label})`, options));
+    } catch (error) {
+      return { ok: false, error: { ...classifyAnalysisError(error), sheetLabel: sheet.label } };
+    }
+  }
+
+  const findings: ComplianceFinding[] = sheetReports.flatMap((sheetReport, i) =>
+    sheetReport.findings.map(f => ({
+      ...f,
+      id: `s${sheets[i].index + 1}-${f.id}`, // Model IDs restart per sheet
+      sheetIndex: sheets[i].index
+    }))
+  );
+
+  const report: AnalysisReport = {
+    // The model's per-sheet scores averaged; scoreReport keeps this as modelScore
+    overallScore: Math.round(sheetReports.reduce((sum, r) => sum + r.overallScore, 0) / sheetReports.length),
+    summary: sheetReports.map((r, i) => `${sheets[i].label}: ${r.summary}`).join('\n'),
+    scanDate: new Date().toISOString(),
+    fileName: fileName,
+    findings: findings,
+    imageBase64: sheets[0].imageBase64,
+    building: options.building,
+    diagnostics: sheetReports.flatMap((r, i) => (r.diagnostics || []).map(d => ({
+      ...d,
+      findingId: d.findingId && `s${sheets[i].index + 1}-${d.findingId}`,
+      field: `${sheets[i].label}: ${d.field}`
+    }))),
+    sheets: sheets.map((sheet, i) => ({ ...sheet, planData: sheetReports[i].planData })),
+    preprocessingSteps: sheetReports.flatMap((r, i) => (r.preprocessingSteps || []).map(step => `${sheets[i].label}: ${step}`))
+  };
+  return { ok: true, report: scoreReport(report) };
+};
@@ -0,0 +1,57 @@
+import { BuildingMetadata, ConstructionType, OccupancyGroup } from "../types";
+
+export const OCCUPANCY_LABELS: Record<OccupancyGroup, string> = {
+  [OccupancyGroup.ASSEMBLY]: 'A – Assembly',
+  [OccupancyGroup.BUSINESS]: 'B – Business',
+  [OccupancyGroup.EDUCATIONAL]: 'E – Educational',
+  [OccupancyGroup.FACTORY]: 'F – Factory and industrial',
+  [OccupancyGroup.HIGH_HAZARD]: 'H – High hazard',
+  [OccupancyGroup.INSTITUTIONAL]: 'I – Institutional',
+  [OccupancyGroup.MERCANTILE]: 'M – Mercantile',
+  [OccupancyGroup.RESIDENTIAL]: 'R – Residential',
+  [OccupancyGroup.STORAGE]: 'S – Storage',
+  [OccupancyGroup.UTILITY]: 'U – Utility and miscellaneous'
+};
+
+export const CONSTRUCTION_TYPES: ConstructionType[] = Object.values(ConstructionType);
+
+// Sub-groups the egress rules distinguish; other groups are checked as a whole
+export const OCCUPANCY_SUBGROUPS: Partial<Record<OccupancyGroup, number[]>> = {
+  [OccupancyGroup.HIGH_HAZARD]: [1, 2, 3, 4, 5],
+  [OccupancyGroup.INSTITUTIONAL]: [1, 2, 3, 4]
+};
+
+/** Occupancy as written in the code, e.g. "H-2", or just "H" without a sub-group. */
+export const formatOccupancy = (group: OccupancyGroup, subgroup?: number) =>
+  subgroup !== undefined ? `${group}-${subgroup}` : group;
+
+/** True when nothing was entered, so the report and prompt can leave the section out. */
+export const isBuildingMetadataEmpty = (building?: BuildingMetadata) =>
+  !building || Object.values(building).every(v => v === undefined);
+
+/** Short facts about the building, e.g. ["Group B", "4 stories", "Sprinklered"]. */
+export const describeBuilding = (building: BuildingMetadata): string[] => [
+  building.occupancyGroup && `Group ${formatOccupancy(building.occupancyGroup, building.occupancySubgroup)}`,
+  building.constructionType && `Type ${building.constructionType}`,
+  building.storyCount !== undefined && `${building.storyCount} ${building.storyCount === 1 ? 'story' : 'stories'}`,
+  building.buildingHeight !== undefined && `${building.buildingHeight} m high`,
+  building.grossArea !== undefined && `${building.grossArea.toLocaleString()} m² gross`,
+  building.sprinklered !== undefined && (building.sprinklered ? 'Sprinklered' : 'Not sprinklered'),
+  building.fireAlarm !== undefined && (building.fireAlarm ? 'Fire alarm' : 'No fire alarm')
+].filter((fact): fact is string => !!fact);
+
+/** Prompt text telling the model about the building, or undefined when nothing was entered. */
+export const buildingPrompt = (building?: BuildingMetadata): string | undefined => {
+  if (!building || isBuildingMetadataEmpty(building)) return undefined;
+  const { occupancyGroup, occupancySubgroup, constructionType, storyCount, buildingHeight, grossArea, sprinklered, fireAlarm } = building;
+  const facts = [
+    occupancyGroup && `Occupancy group: ${OCCUPANCY_LABELS[occupancyGroup]}${occupancySubgroup !== undefined ? ` (${formatOccupancy(occupancyGroup, occupancySubgroup)})` : ''}`,
+    constructionType && `Construction type: ${constructionType}`,
+    storyCount !== undefined && `Stories above grade: ${storyCount}`,
+    buildingHeight !== undefined && `Building height: ${buildingHeight} m`,
+    grossArea !== undefined && `Gross floor area: ${grossArea} m²`,
+    sprinklered !== undefined && `Automatic sprinkler system: ${sprinklered ? 'yes, fully sprinklered' : 'no'}`,
+    fireAlarm !== undefined && `Fire alarm and detection system: ${fireAlarm ? 'yes' : 'no'}`
+  ].filter(Boolean);
+  return `Building information provided by the engineer. Use it to pick the applicable SBC limits, and state the occupancy and sprinkler assumptions behind each egress finding:\n${facts.map(f => `- ${f}`).join('\n')}`;
+};
@@ -0,0 +1,35 @@
+import { SbcClause } from "../types";
+import { searchRegulations } from "./regulationSearch";
+import { REFERENCE_PATTERN, parseReference } from "./referenceParser";
+
+const MAX_CONTEXT_CLAUSES = 4;
+const MIN_RELEVANCE = 2; // A title word, or two words of the clause text
+
+/** The library clauses most relevant to a question, to be quoted in the prompt. */
+export const retrieveClauses = (question: string): SbcClause[] =>
+  searchRegulations(question, MAX_CONTEXT_CLAUSES)
+    .filter(r => r.score >= MIN_RELEVANCE)
+    .map(r => r.clause);
+
+// The form the model is asked to cite clauses in, e.g. "[SBC 201 - 1020.4]"
+export const citationOf = (clause: SbcClause) => `[SBC ${clause.code} - ${clause.number}]`;
+
+/** Reference block appended to the question sent to the model. */
+export const formatClauseContext = (clauses: SbcClause[]) =>
+  clauses.map(c => `${citationOf(c)} ${c.title}: ${c.text}`).join('\n');
+
+export interface GroundedAnswer {
+  text: string;
+  sourceIds: string[]; // Clauses supplied with the question
+  citedIds: string[]; // Canonical IDs of every clause the answer cites, known or not
+  isGrounded: boolean; // The answer cites at least one supplied clause
+}
+
+/** Checks an answer's citations against the clauses it was given. */
+export const groundAnswer = (text: string, sources: SbcClause[]): GroundedAnswer => {
+  const citedIds = Array.from(new Set<string>(
+    Array.from(text.matchAll(REFERENCE_PATTERN), m => parseReference(m[0])?.id).filter((id): id is string => !!id)
+  ));
+  const sourceIds = sources.map(c => c.id);
+  return { text, sourceIds, citedIds, isGrounded: citedIds.some(id => sourceIds.includes(id)) };
+};
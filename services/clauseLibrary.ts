@@ -0,0 +1,67 @@
+import { ComplianceFinding, SbcClause } from "../types";
+import { SBC_CLAUSES } from "./sbcClauses";
+import { REFERENCE_PATTERN, parseReference } from "./referenceParser";
+
+const clausesById = new Map<string, SbcClause>(SBC_CLAUSES.map(c => [c.id, c]));
+
+export const getClause = (id: string): SbcClause | undefined => clausesById.get(id);
+
+/** The library clause a free-text reference points at, if the library has it. */
+export const resolveReference = (reference: string): SbcClause | undefined => {
+  const parsed = parseReference(reference);
+  return parsed && getClause(parsed.id);
+};
+
+// How far a finding's reference can be trusted; NONE means no clause was cited at all
+export type ReferenceCheck = 'VERIFIED' | 'UNVERIFIED' | 'NONE';
+
+const NO_REFERENCE = /^\s*(n\/?a|none|-)?\s*$/i;
+
+/**
+ * Checks a reference against the clause library. Anything citing a clause the library
+ * does not know, including text that is not a recognizable SBC reference, is UNVERIFIED:
+ * the model may have invented it.
+ */
+export const checkReference = (reference: string): ReferenceCheck => {
+  if (NO_REFERENCE.test(reference)) return 'NONE';
+  return resolveReference(reference) ? 'VERIFIED' : 'UNVERIFIED';
+};
+
+export const isUnverifiedReference = (reference: string) => checkReference(reference) === 'UNVERIFIED';
+
+export interface TextSegment {
+  text: string;
+  reference?: boolean; // The segment is an SBC reference that can be opened
+}
+
+/** Splits prose into plain text and SBC references, for rendering references as links. */
+export const splitReferences = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(REFERENCE_PATTERN)) {
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+    segments.push({ text: match[0], reference: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
+
+/**
+ * Clauses a reader may want next: the parent section, subsections, and clauses linked in
+ * either direction, without duplicates.
+ */
+export const relatedClauses = (clause: SbcClause): SbcClause[] => {
+  const ids = new Set<string>([
+    ...(clause.parentId ? [clause.parentId] : []),
+    ...SBC_CLAUSES.filter(c => c.parentId === clause.id).map(c => c.id),
+    ...(clause.relatedIds || []),
+    ...SBC_CLAUSES.filter(c => c.relatedIds?.includes(clause.id)).map(c => c.id)
+  ]);
+  ids.delete(clause.id);
+  return Array.from(ids).map(getClause).filter((c): c is SbcClause => !!c);
+};
+
+/** Findings whose reference resolves to the clause. */
+export const findingsCitingClause = (findings: ComplianceFinding[], clause: SbcClause): ComplianceFinding[] =>
+  findings.filter(f => resolveReference(f.reference)?.id === clause.id);
@@ -0,0 +1,84 @@
+import { Project, ReportSummary, Revision } from "../types";
+import { latestRevisions } from "./projectStore";
+
+export interface DashboardStats {
+  scanCount: number; // Current scans the figures are based on
+  pendingReviews: number;
+  openFindings: number; // Every non-PASS finding, reviewed or not
+  complianceRate?: number; // Percentage of passing findings; undefined without findings
+  criticalIssues: number; // Unresolved critical or life-safety FAIL findings
+}
+
+// One point per scan in a project; each project is a series keyed by its id
+export interface ScoreTrendPoint {
+  time: number;
+  [projectId: string]: number;
+}
+
+export interface CategoryCount {
+  category: string;
+  count: number;
+}
+
+// Summaries saved before these fields existed fall back to their raw counts
+const passCountOf = (r: ReportSummary) => r.passCount ?? Math.max(0, r.findingCount - r.failCount - r.warningCount);
+const criticalCountOf = (r: ReportSummary) => r.criticalCount ?? r.openFailCount ?? r.failCount;
+const pendingReviewCountOf = (r: ReportSummary) => r.pendingReviewCount ?? r.failCount + r.warningCount;
+const openFindingCountOf = (r: ReportSummary) => r.findingCount - passCountOf(r);
+
+/**
+ * Scans that describe the current state: the newest revision of each drawing, plus
+ * standalone scans that were never filed under a drawing.
+ */
+export const currentReports = (reports: ReportSummary[], revisions: Revision[]): ReportSummary[] => {
+  const latestReportIds = new Set(Array.from(latestRevisions(revisions).values()).map(r => r.reportId));
+  return reports.filter(r => !r.drawingId || latestReportIds.has(r.id));
+};
+
+export const computeDashboardStats = (reports: ReportSummary[], revisions: Revision[]): DashboardStats => {
+  const current = currentReports(reports, revisions);
+  const sum = (value: (r: ReportSummary) => number) => current.reduce((total, r) => total + value(r), 0);
+  const findingCount = sum(r => r.findingCount);
+
+  return {
+    scanCount: current.length,
+    pendingReviews: sum(pendingReviewCountOf),
+    openFindings: sum(openFindingCountOf),
+    complianceRate: findingCount > 0 ? Math.round((sum(passCountOf) / findingCount) * 100) : undefined,
+    criticalIssues: sum(criticalCountOf)
+  };
+};
+
+/**
+ * Project score over time. After each scan the project's score is the average of the
+ * newest score of every drawing scanned so far, matching the Projects view.
+ */
+export const scoreTrend = (reports: ReportSummary[], projects: Project[]): ScoreTrendPoint[] => {
+  const projectIds = new Set(projects.map(p => p.id));
+  const latestByDrawing = new Map<string, Map<string, number>>(); // projectId → drawingId → score
+
+  return reports
+    .filter(r => r.projectId && projectIds.has(r.projectId))
+    .sort((a, b) => a.scanDate.localeCompare(b.scanDate))
+    .map(r => {
+      const drawings = latestByDrawing.get(r.projectId!) || new Map<string, number>();
+      drawings.set(r.drawingId || r.id, r.overallScore);
+      latestByDrawing.set(r.projectId!, drawings);
+      const scores = Array.from(drawings.values());
+      return {
+        time: new Date(r.scanDate).getTime(),
+        [r.projectId!]: Math.round(scores.reduce((a, b) => a + b, 0) / scores.length)
+      };
+    });
+};
+
+/** Unresolved FAIL findings per category across current scans, largest first. */
+export const openFailsByCategory = (reports: ReportSummary[], revisions: Revision[]): CategoryCount[] => {
+  const counts = new Map<string, number>();
+  currentReports(reports, revisions).forEach(r => {
+    Object.entries(r.openFailsByCategory || {}).forEach(([category, count]) => {
+      counts.set(category, (counts.get(category) || 0) + count);
+    });
+  });
+  return Array.from(counts, ([category, count]) => ({ category, count })).sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,62 @@
+const DB_NAME = "codecheck-sa";
+const DB_VERSION = 2;
+
+export const STORES = {
+  reports: "reports", // Full reports, including sheet images
+  summaries: "summaries", // Small records for history lists
+  projects: "projects",
+  drawings: "drawings",
+  revisions: "revisions"
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Each version only adds stores, so upgrading from any older version just creates what is missing
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.reports)) db.createObjectStore(STORES.reports, { keyPath: 'id' });
+  if (!db.objectStoreNames.contains(STORES.summaries)) {
+    db.createObjectStore(STORES.summaries, { keyPath: 'id' }).createIndex('scanDate', 'scanDate');
+  }
+  if (!db.objectStoreNames.contains(STORES.projects)) db.createObjectStore(STORES.projects, { keyPath: 'id' });
+  if (!db.objectStoreNames.contains(STORES.drawings)) {
+    db.createObjectStore(STORES.drawings, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+  }
+  if (!db.objectStoreNames.contains(STORES.revisions)) {
+    db.createObjectStore(STORES.revisions, { keyPath: 'id' }).createIndex('drawingId', 'drawingId');
+  }
+};
+
+/** Opens (and on first use creates or upgrades) the app's IndexedDB database. */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("Local storage is not available: this browser does not support IndexedDB."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error("Database transaction was aborted."));
+});
+
+export const createId = (prefix: string) =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,468 @@
+import { DrawingSheet, DrawingVectorData, VectorDimension, VectorShape, VectorText } from "../types";
+import { UNIT_TO_METERS } from "./measurement";
+
+// --- Raw DXF structure ---
+
+interface DxfGroup {
+  code: number;
+  value: string;
+}
+
+interface RawEntity {
+  type: string;
+  groups: DxfGroup[];
+  vertices?: RawEntity[]; // VERTEX children of an old-style POLYLINE
+}
+
+interface RawBlock {
+  name: string;
+  baseX: number;
+  baseY: number;
+  entities: RawEntity[];
+}
+
+// --- Flattened geometry in world coordinates ---
+
+type Point = [number, number];
+type Matrix = [number, number, number, number, number, number]; // x' = a*x + c*y + e, y' = b*x + d*y + f
+
+interface Polyline {
+  layer: string;
+  points: Point[];
+  closed: boolean;
+}
+
+interface TextItem {
+  layer: string;
+  x: number;
+  y: number;
+  height: number;
+  rotation: number; // Radians, counter-clockwise
+  text: string;
+  topAligned: boolean; // MTEXT is anchored at its top-left corner, TEXT at its baseline
+  isDimensionText: boolean; // Already reported through the dimension's measured value
+}
+
+interface DimensionItem {
+  layer: string;
+  x: number;
+  y: number;
+  value: number;
+  label: string;
+}
+
+interface FlatDrawing {
+  polylines: Polyline[];
+  texts: TextItem[];
+  dimensions: DimensionItem[];
+}
+
+export interface ParsedDxf {
+  units: string;
+  layers: string[];
+  entityCounts: Record<string, number>;
+  drawing: FlatDrawing;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_BLOCK_DEPTH = 8;
+const ARC_SEGMENTS = 48; // Per full circle
+const TARGET_SHEET_SIZE_PX = 2000;
+const SHEET_PADDING = 0.03;
+const MAX_CLOSED_SHAPES = 200;
+
+// $INSUNITS codes from the DXF reference
+const INSUNITS: Record<number, string> = {
+  0: 'unitless', 1: 'in', 2: 'ft', 4: 'mm', 5: 'cm', 6: 'm', 14: 'dm'
+};
+
+const readGroups = (text: string): DxfGroup[] => {
+  const lines = text.split(/\r?\n/);
+  const groups: DxfGroup[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    if (isNaN(code)) throw new Error(`Malformed DXF: expected a group code on line ${i + 1}.`);
+    groups.push({ code, value: lines[i + 1].trim() });
+  }
+  return groups;
+};
+
+const num = (entity: RawEntity, code: number, fallback = 0): number => {
+  const group = entity.groups.find(g => g.code === code);
+  const value = group ? parseFloat(group.value) : NaN;
+  return isNaN(value) ? fallback : value;
+};
+
+const str = (entity: RawEntity, code: number, fallback = ''): string =>
+  entity.groups.find(g => g.code === code)?.value ?? fallback;
+
+// Splits a flat group list into entities, one per code-0 marker
+const splitEntities = (groups: DxfGroup[]): RawEntity[] => {
+  const entities: RawEntity[] = [];
+  let current: RawEntity | null = null;
+  for (const group of groups) {
+    if (group.code === 0) {
+      current = { type: group.value, groups: [] };
+      entities.push(current);
+    } else if (current) {
+      current.groups.push(group);
+    }
+  }
+  return entities;
+};
+
+// Folds VERTEX runs into their POLYLINE and drops SEQEND markers
+const attachVertices = (entities: RawEntity[]): RawEntity[] => {
+  const result: RawEntity[] = [];
+  let openPolyline: RawEntity | null = null;
+  for (const entity of entities) {
+    if (entity.type === 'VERTEX' && openPolyline) {
+      openPolyline.vertices!.push(entity);
+      continue;
+    }
+    if (entity.type === 'SEQEND') {
+      openPolyline = null;
+      continue;
+    }
+    if (entity.type === 'POLYLINE') {
+      openPolyline = { ...entity, vertices: [] };
+      result.push(openPolyline);
+      continue;
+    }
+    openPolyline = null;
+    result.push(entity);
+  }
+  return result;
+};
+
+const cleanMText = (raw: string): string =>
+  raw
+    .replace(/\\P/g, '\n')
+    .replace(/\\[ACcFfHhQqTtWw][^;]*;/g, '')
+    .replace(/\\[LlOoKk]/g, '')
+    .replace(/\\S([^;^]*)[\^#]([^;]*);/g, '$1/$2')
+    .replace(/[{}]/g, '')
+    .replace(/%%[cC]/g, 'Ø')
+    .replace(/%%[dD]/g, '°')
+    .replace(/%%[pP]/g, '±')
+    .trim();
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+const apply = (m: Matrix, x: number, y: number): Point => [
+  m[0] * x + m[2] * y + m[4],
+  m[1] * x + m[3] * y + m[5]
+];
+
+const matrixScale = (m: Matrix) => Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+const matrixRotation = (m: Matrix) => Math.atan2(m[1], m[0]);
+
+const arcPoints = (cx: number, cy: number, r: number, startDeg: number, endDeg: number): Point[] => {
+  let sweep = endDeg - startDeg;
+  if (sweep <= 0) sweep += 360;
+  const steps = Math.max(4, Math.ceil(ARC_SEGMENTS * sweep / 360));
+  const points: Point[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const angle = (startDeg + sweep * i / steps) * Math.PI / 180;
+    points.push([cx + r * Math.cos(angle), cy + r * Math.sin(angle)]);
+  }
+  return points;
+};
+
+// LWPOLYLINE stores its vertices as repeated 10/20 pairs
+const lwPolylinePoints = (entity: RawEntity): Point[] => {
+  const points: Point[] = [];
+  let x: number | null = null;
+  for (const group of entity.groups) {
+    if (group.code === 10) x = parseFloat(group.value);
+    else if (group.code === 20 && x !== null) {
+      points.push([x, parseFloat(group.value)]);
+      x = null;
+    }
+  }
+  return points;
+};
+
+const flattenEntities = (
+  entities: RawEntity[],
+  blocks: Map<string, RawBlock>,
+  matrix: Matrix,
+  depth: number,
+  out: FlatDrawing,
+  inDimension = false,
+  parentLayer?: string
+) => {
+  const scale = matrixScale(matrix);
+  const rotation = matrixRotation(matrix);
+  const pushPolyline = (layer: string, points: Point[], closed: boolean) => {
+    if (points.length < 2) return;
+    out.polylines.push({ layer, points: points.map(([x, y]) => apply(matrix, x, y)), closed });
+  };
+
+  for (const entity of entities) {
+    // Block contents drawn on layer 0 take the layer of the INSERT that places them
+    const ownLayer = str(entity, 8, '0');
+    const layer = ownLayer === '0' && parentLayer ? parentLayer : ownLayer;
+    switch (entity.type) {
+      case 'LINE':
+        pushPolyline(layer, [[num(entity, 10), num(entity, 20)], [num(entity, 11), num(entity, 21)]], false);
+        break;
+      case 'LWPOLYLINE':
+        pushPolyline(layer, lwPolylinePoints(entity), (num(entity, 70) & 1) === 1);
+        break;
+      case 'POLYLINE':
+        pushPolyline(layer, (entity.vertices || []).map(v => [num(v, 10), num(v, 20)] as Point), (num(entity, 70) & 1) === 1);
+        break;
+      case 'CIRCLE':
+        pushPolyline(layer, arcPoints(num(entity, 10), num(entity, 20), num(entity, 40), 0, 360), true);
+        break;
+      case 'ARC':
+        pushPolyline(layer, arcPoints(num(entity, 10), num(entity, 20), num(entity, 40), num(entity, 50), num(entity, 51)), false);
+        break;
+      case 'TEXT':
+      case 'ATTRIB':
+      case 'MTEXT': {
+        const isMText = entity.type === 'MTEXT';
+        const rawText = isMText
+          ? entity.groups.filter(g => g.code === 3).map(g => g.value).join('') + str(entity, 1)
+          : str(entity, 1);
+        const text = cleanMText(rawText);
+        if (!text) break;
+        const [x, y] = apply(matrix, num(entity, 10), num(entity, 20));
+        out.texts.push({
+          layer,
+          x,
+          y,
+          height: num(entity, 40, 2.5) * scale,
+          rotation: num(entity, 50) * Math.PI / 180 + rotation,
+          text,
+          topAligned: isMText,
+          isDimensionText: inDimension
+        });
+        break;
+      }
+      case 'DIMENSION': {
+        const measured = num(entity, 42, NaN);
+        const override = cleanMText(str(entity, 1));
+        const overrideValue = parseFloat(override.replace(/[^\d.]/g, ''));
+        const value = !isNaN(measured) ? measured * scale : overrideValue;
+        const hasTextPoint = entity.groups.some(g => g.code === 11);
+        const [x, y] = apply(matrix, num(entity, hasTextPoint ? 11 : 10), num(entity, hasTextPoint ? 21 : 20));
+        if (!isNaN(value)) {
+          const label = override && override !== '<>' ? override.replace('<>', String(+value.toFixed(2))) : String(+value.toFixed(2));
+          out.dimensions.push({ layer, x, y, value, label });
+        }
+        // The dimension's lines, arrows and text live in an anonymous block drawn in world coordinates
+        const block = blocks.get(str(entity, 2));
+        if (block && depth < MAX_BLOCK_DEPTH) {
+          flattenEntities(block.entities, blocks, matrix, depth + 1, out, true, layer);
+        }
+        break;
+      }
+      case 'INSERT': {
+        const block = blocks.get(str(entity, 2));
+        if (!block || depth >= MAX_BLOCK_DEPTH) break;
+        const angle = num(entity, 50) * Math.PI / 180;
+        const sx = num(entity, 41, 1);
+        const sy = num(entity, 42, 1);
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const insert: Matrix = [cos * sx, sin * sx, -sin * sy, cos * sy, num(entity, 10), num(entity, 20)];
+        const toBase: Matrix = [1, 0, 0, 1, -block.baseX, -block.baseY];
+        flattenEntities(block.entities, blocks, multiply(matrix, multiply(insert, toBase)), depth + 1, out, inDimension, layer);
+        break;
+      }
+      default:
+        break;
+    }
+  }
+};
+
+/**
+ * Parses an ASCII DXF file into layers, flattened geometry, text and
+ * dimension values. Blocks (INSERT) are expanded into world coordinates.
+ */
+export const parseDxf = (text: string): ParsedDxf => {
+  const groups = readGroups(text);
+
+  let units = 'unitless';
+  const layers = new Set<string>();
+  const blocks = new Map<string, RawBlock>();
+  let modelEntities: RawEntity[] = [];
+
+  // Walk SECTION ... ENDSEC ranges
+  for (let i = 0; i < groups.length; i++) {
+    if (groups[i].code !== 0 || groups[i].value !== 'SECTION') continue;
+    const sectionName = groups[i + 1]?.value;
+    let end = i + 2;
+    while (end < groups.length && !(groups[end].code === 0 && groups[end].value === 'ENDSEC')) end++;
+    const body = groups.slice(i + 2, end);
+
+    if (sectionName === 'HEADER') {
+      const idx = body.findIndex(g => g.code === 9 && g.value === '$INSUNITS');
+      if (idx >= 0 && body[idx + 1]) units = INSUNITS[parseInt(body[idx + 1].value, 10)] || 'unitless';
+    } else if (sectionName === 'TABLES') {
+      splitEntities(body).filter(e => e.type === 'LAYER').forEach(e => layers.add(str(e, 2)));
+    } else if (sectionName === 'BLOCKS') {
+      let current: RawBlock | null = null;
+      for (const entity of attachVertices(splitEntities(body))) {
+        if (entity.type === 'BLOCK') {
+          current = { name: str(entity, 2), baseX: num(entity, 10), baseY: num(entity, 20), entities: [] };
+          blocks.set(current.name, current);
+        } else if (entity.type === 'ENDBLK') {
+          current = null;
+        } else if (current) {
+          current.entities.push(entity);
+        }
+      }
+    } else if (sectionName === 'ENTITIES') {
+      modelEntities = attachVertices(splitEntities(body));
+    }
+    i = end;
+  }
+
+  if (modelEntities.length === 0) {
+    throw new Error("The DXF file has no model-space entities to analyze.");
+  }
+
+  const entityCounts: Record<string, number> = {};
+  modelEntities.forEach(e => {
+    entityCounts[e.type] = (entityCounts[e.type] || 0) + 1;
+    layers.add(str(e, 8, '0'));
+  });
+
+  const drawing: FlatDrawing = { polylines: [], texts: [], dimensions: [] };
+  flattenEntities(modelEntities, blocks, IDENTITY, 0, drawing);
+
+  return { units, layers: Array.from(layers).filter(Boolean).sort(), entityCounts, drawing };
+};
+
+const polygonArea = (points: Point[]) => {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    sum += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(sum) / 2;
+};
+
+/**
+ * Renders a parsed DXF plan onto a white JPEG sheet for the drawing viewer and
+ * attaches the extracted vector data, positioned in the sheet's normalized coordinates.
+ */
+export const renderDxfSheet = (parsed: ParsedDxf, label = 'Sheet 1'): DrawingSheet => {
+  const { drawing } = parsed;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const extend = ([x, y]: Point) => {
+    if (!isFinite(x) || !isFinite(y)) return;
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  };
+  drawing.polylines.forEach(p => p.points.forEach(extend));
+  drawing.texts.forEach(t => extend([t.x, t.y]));
+  if (!isFinite(minX)) throw new Error("The DXF file has no drawable geometry.");
+
+  const worldWidth = Math.max(maxX - minX, 1e-6);
+  const worldHeight = Math.max(maxY - minY, 1e-6);
+
+  const drawable = TARGET_SHEET_SIZE_PX * (1 - 2 * SHEET_PADDING);
+  const pxPerUnit = drawable / Math.max(worldWidth, worldHeight);
+  const width = Math.ceil(worldWidth * pxPerUnit + TARGET_SHEET_SIZE_PX * 2 * SHEET_PADDING);
+  const height = Math.ceil(worldHeight * pxPerUnit + TARGET_SHEET_SIZE_PX * 2 * SHEET_PADDING);
+  const pad = TARGET_SHEET_SIZE_PX * SHEET_PADDING;
+
+  // DXF y grows upwards, canvas y grows downwards
+  const toPx = (x: number, y: number): Point => [pad + (x - minX) * pxPerUnit, pad + (maxY - y) * pxPerUnit];
+  const toNormalized = (x: number, y: number): number[] => {
+    const [px, py] = toPx(x, y);
+    return [+(py / height).toFixed(4), +(px / width).toFixed(4)];
+  };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas rendering is not available in this browser.");
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.strokeStyle = '#0f172a';
+  ctx.lineWidth = 1.5;
+  ctx.lineJoin = 'round';
+
+  drawing.polylines.forEach(poly => {
+    ctx.beginPath();
+    poly.points.forEach(([x, y], i) => {
+      const [px, py] = toPx(x, y);
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+    });
+    if (poly.closed) ctx.closePath();
+    ctx.stroke();
+  });
+
+  ctx.fillStyle = '#0f172a';
+  drawing.texts.forEach(t => {
+    const size = Math.max(t.height * pxPerUnit, 6);
+    const [px, py] = toPx(t.x, t.y);
+    ctx.save();
+    ctx.translate(px, py);
+    ctx.rotate(-t.rotation);
+    ctx.font = `${size}px sans-serif`;
+    ctx.textBaseline = t.topAligned ? 'top' : 'alphabetic';
+    t.text.split('\n').forEach((line, i) => ctx.fillText(line, 0, i * size * 1.2));
+    ctx.restore();
+  });
+
+  const texts: VectorText[] = drawing.texts.filter(t => !t.isDimensionText).map(t => ({
+    text: t.text,
+    layer: t.layer,
+    position: toNormalized(t.x, t.y)
+  }));
+
+  const dimensions: VectorDimension[] = drawing.dimensions.map(d => ({
+    value: +d.value.toFixed(4),
+    label: d.label,
+    layer: d.layer,
+    position: toNormalized(d.x, d.y)
+  }));
+
+  const closedShapes: VectorShape[] = drawing.polylines
+    .filter(p => p.closed && p.points.length >= 3)
+    .map(p => {
+      const xs = p.points.map(pt => pt[0]);
+      const ys = p.points.map(pt => pt[1]);
+      const [ymin, xmin] = toNormalized(Math.min(...xs), Math.max(...ys));
+      const [ymax, xmax] = toNormalized(Math.max(...xs), Math.min(...ys));
+      return { layer: p.layer, area: +polygonArea(p.points).toFixed(4), boundingBox: [ymin, xmin, ymax, xmax] };
+    })
+    .sort((a, b) => b.area - a.area)
+    .slice(0, MAX_CLOSED_SHAPES);
+
+  const vectorData: DrawingVectorData = {
+    units: parsed.units,
+    extents: { width: +worldWidth.toFixed(4), height: +worldHeight.toFixed(4) },
+    layers: parsed.layers,
+    entityCounts: parsed.entityCounts,
+    texts,
+    dimensions,
+    closedShapes
+  };
+
+  return {
+    index: 0,
+    label,
+    imageBase64: canvas.toDataURL('image/jpeg', 0.9).split(',')[1],
+    vectorData,
+    // Unitless drawings have no known scale and must be calibrated by hand
+    metersPerPixel: UNIT_TO_METERS[parsed.units] !== undefined ? UNIT_TO_METERS[parsed.units] / pxPerUnit : undefined
+  };
+};
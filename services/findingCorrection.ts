@@ -0,0 +1,76 @@
+import { ComplianceFinding, CorrectableField, FieldCorrection, FindingSource } from "../types";
+import { SEVERITY_LABELS } from "./severity";
+
+export const CORRECTABLE_FIELDS: CorrectableField[] = [
+  'category', 'description', 'reference', 'status', 'severity', 'lifeSafety', 'recommendation', 'boundingBox'
+];
+
+export const FIELD_LABELS: Record<CorrectableField, string> = {
+  category: 'Category',
+  description: 'Description',
+  reference: 'Reference',
+  status: 'Status',
+  severity: 'Severity',
+  lifeSafety: 'Life safety',
+  recommendation: 'Recommendation',
+  boundingBox: 'Location on drawing'
+};
+
+// Bounding boxes are arrays, so compare by value
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Applies a reviewer's changes to a finding. The first edit of a field keeps the analysis
+ * value as `original`; editing a field back to that value drops its correction. Findings a
+ * reviewer wrote themselves have no analysis value to keep, so they are simply updated.
+ */
+export const correctFinding = (
+  finding: ComplianceFinding,
+  changes: Partial<Pick<ComplianceFinding, CorrectableField>>,
+  actor: string
+): ComplianceFinding => {
+  const changed = CORRECTABLE_FIELDS.filter(field => field in changes && !sameValue(changes[field], finding[field]));
+  if (changed.length === 0) return finding;
+  if (finding.source === FindingSource.REVIEWER) return { ...finding, ...changes };
+
+  const editedAt = new Date().toISOString();
+  const corrections: Partial<Record<CorrectableField, FieldCorrection>> = { ...finding.corrections };
+  changed.forEach(field => {
+    const original = field in corrections ? corrections[field]!.original : finding[field];
+    if (sameValue(changes[field], original)) {
+      delete corrections[field];
+    } else {
+      corrections[field] = { original, editedBy: actor, editedAt };
+    }
+  });
+
+  return { ...finding, ...changes, corrections: Object.keys(corrections).length > 0 ? corrections : undefined };
+};
+
+/** Puts a corrected field back to the value the analysis produced. */
+export const revertCorrection = (finding: ComplianceFinding, field: CorrectableField): ComplianceFinding => {
+  const correction = finding.corrections?.[field];
+  if (!correction) return finding;
+  const { [field]: _reverted, ...corrections } = finding.corrections!;
+  return {
+    ...finding,
+    [field]: correction.original,
+    corrections: Object.keys(corrections).length > 0 ? corrections : undefined
+  };
+};
+
+export const correctedFields = (finding: ComplianceFinding): CorrectableField[] =>
+  CORRECTABLE_FIELDS.filter(field => finding.corrections?.[field]);
+
+export const isCorrected = (finding: ComplianceFinding) => correctedFields(finding).length > 0;
+
+/** Short human-readable form of a field value, for the history list and the PDF. */
+export const formatFieldValue = (field: CorrectableField, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return 'none';
+  if (field === 'severity' && typeof value === 'string' && value in SEVERITY_LABELS) {
+    return SEVERITY_LABELS[value as keyof typeof SEVERITY_LABELS];
+  }
+  if (field === 'lifeSafety') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.map(n => typeof n === 'number' ? n.toFixed(3) : String(n)).join(', ');
+  return String(value);
+};
@@ -0,0 +1,63 @@
+import { ComplianceFinding, FindingReview, ReviewState } from "../types";
+import { createId } from "./database";
+
+// Workflow order, used for menus and PDF filters
+export const REVIEW_STATES: ReviewState[] = [
+  ReviewState.OPEN,
+  ReviewState.ACKNOWLEDGED,
+  ReviewState.IN_PROGRESS,
+  ReviewState.RESOLVED,
+  ReviewState.WAIVED
+];
+
+export const REVIEW_STATE_LABELS: Record<ReviewState, string> = {
+  [ReviewState.OPEN]: 'Open',
+  [ReviewState.ACKNOWLEDGED]: 'Acknowledged',
+  [ReviewState.IN_PROGRESS]: 'In Progress',
+  [ReviewState.RESOLVED]: 'Resolved',
+  [ReviewState.WAIVED]: 'Waived'
+};
+
+/** The finding's review, or a fresh OPEN one for findings nobody has touched yet. */
+export const reviewOf = (finding: ComplianceFinding): FindingReview =>
+  finding.review || { state: ReviewState.OPEN, comments: [] };
+
+/** Resolved and waived findings need no further action. */
+export const isReviewClosed = (finding: ComplianceFinding) => {
+  const { state } = reviewOf(finding);
+  return state === ReviewState.RESOLVED || state === ReviewState.WAIVED;
+};
+
+const updateReview = (finding: ComplianceFinding, changes: Partial<FindingReview>, actor: string): ComplianceFinding => ({
+  ...finding,
+  review: { ...reviewOf(finding), ...changes, updatedBy: actor, updatedAt: new Date().toISOString() }
+});
+
+/**
+ * Moves a finding to a new review state. Waiving requires a justification, which is
+ * also recorded as a comment so it stays in the thread after the state changes again.
+ */
+export const setReviewState = (finding: ComplianceFinding, state: ReviewState, actor: string, justification?: string): ComplianceFinding => {
+  const reason = justification?.trim();
+  if (state === ReviewState.WAIVED && !reason) {
+    throw new Error("A waiver needs a justification.");
+  }
+  const review = reviewOf(finding);
+  return updateReview(finding, {
+    state,
+    waiverJustification: state === ReviewState.WAIVED ? reason : undefined,
+    comments: state === ReviewState.WAIVED
+      ? [...review.comments, { id: createId('c'), author: actor, text: `Waived: ${reason}`, createdAt: new Date().toISOString() }]
+      : review.comments
+  }, actor);
+};
+
+export const assignFinding = (finding: ComplianceFinding, assignee: string, actor: string): ComplianceFinding =>
+  updateReview(finding, { assignee: assignee.trim() || undefined }, actor);
+
+export const addComment = (finding: ComplianceFinding, text: string, author: string): ComplianceFinding => {
+  const review = reviewOf(finding);
+  return updateReview(finding, {
+    comments: [...review.comments, { id: createId('c'), author, text: text.trim(), createdAt: new Date().toISOString() }]
+  }, author);
+};
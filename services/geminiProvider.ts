@@ -0,0 +1,236 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { DrawingVectorData } from "../types";
+import { AnalysisProvider, ChatProvider } from "./analysisProvider";
+import { formatClauseContext } from "./chatGrounding";
+import { buildingPrompt } from "./buildingMetadata";
+
+const MODEL = "gemini-2.5-flash"; // Efficient for multimodal analysis
+
+// Created on first use so the app can run offline with the local provider and no API key
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+const SYSTEM_INSTRUCTION_ANALYST = `
+You are a Senior Engineering Compliance Specialist for the Kingdom of Saudi Arabia.
+Your role is to analyze architectural and engineering drawings (provided as images) against the Saudi Building Code (SBC).
+Focus areas:
+1. SBC 201 (General Building)
+2. SBC 801 (Fire Code)
+3. Accessibility Standards
+4. Structural Integrity (General checks)
+
+When analyzing an image:
+- Identify key elements: Exits, Corridors, Rooms, Parking, Ramps.
+- Flag non-compliance issues (e.g., dead-end corridors > 6m, door widths < 900mm, missing fire exits).
+- Be precise with SBC references.
+- **CRITICAL**: For every finding, provide a 2D bounding box [ymin, xmin, ymax, xmax] (normalized 0-1 coordinates) that strictly highlights the specific area of the issue on the drawing.
+- Rate every finding's severity: CRITICAL for missing or blocked exits and absent fire protection, MAJOR for clear code violations, MINOR for labeling, documentation or small deviations, INFO for passing items. Set lifeSafety to true when occupant safety is at stake.
+- When a finding concerns a dimension you can read or scale off the drawing, include it as a measurement with its unit and the SBC limit.
+- If the image is unclear or abstract, provide a best-effort analysis based on visible geometry.
+- Also extract structured plan data (rooms, doors, corridors, exits) with measured dimensions: widths in millimetres, lengths and distances in metres, areas in square metres. Only include elements you can measure; these values are checked by a separate deterministic rule engine.
+`;
+
+const SYSTEM_INSTRUCTION_CHAT = `
+You are an expert AI Consultant for Saudi Engineering Compliance.
+You help engineers understand and fix compliance issues in their AutoCAD/BIM designs.
+You have deep knowledge of:
+- Saudi Building Code (SBC) 201, 801, 501, 601.
+- MOMRAH (Ministry of Municipal and Rural Affairs and Housing) regulations.
+- Civil Defense requirements.
+
+Provide actionable, technical advice. Be professional, concise, and helpful.
+
+Each question comes with reference clauses from the SBC clause library:
+- Base your answer on those clauses and cite them inline exactly as given, e.g. [SBC 201 - 1020.4].
+- Do not cite clauses that were not supplied.
+- If the supplied clauses do not cover the question, say so plainly and do not quote numeric limits from memory.
+`;
+
+const BOX_SCHEMA = {
+  type: Type.ARRAY,
+  items: { type: Type.NUMBER },
+  description: "Bounding box [ymin, xmin, ymax, xmax] in normalized 0-1 coordinates."
+};
+
+// A dimension read off the drawing, compared against the SBC limit the finding cites
+const MEASUREMENT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    label: { type: Type.STRING, description: "What was measured, e.g. \"Dead-end corridor\"." },
+    value: { type: Type.NUMBER },
+    unit: { type: Type.STRING, enum: ["mm", "m", "m²"] },
+    limit: { type: Type.NUMBER, description: "The SBC limit in the same unit." },
+    limitType: { type: Type.STRING, enum: ["max", "min"] }
+  },
+  required: ["label", "value", "unit"]
+};
+
+// Plan elements measured from the drawing, consumed by the local rule engine
+const PLAN_DATA_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    occupantLoad: { type: Type.NUMBER, description: "Estimated occupant load of the floor, if determinable." },
+    rooms: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          name: { type: Type.STRING },
+          area: { type: Type.NUMBER, description: "Floor area in square metres." },
+          isHabitable: { type: Type.BOOLEAN, description: "True for bedrooms, living rooms and other spaces for living or sleeping." },
+          boundingBox: BOX_SCHEMA
+        },
+        required: ["id", "name", "area"]
+      }
+    },
+    doors: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          clearWidth: { type: Type.NUMBER, description: "Clear opening width in millimetres." },
+          isExitDoor: { type: Type.BOOLEAN },
+          boundingBox: BOX_SCHEMA
+        },
+        required: ["id", "clearWidth"]
+      }
+    },
+    corridors: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          width: { type: Type.NUMBER, description: "Clear width in millimetres." },
+          length: { type: Type.NUMBER, description: "Length in metres." },
+          deadEndLength: { type: Type.NUMBER, description: "Length of the dead-end portion in metres, if the corridor has one." },
+          boundingBox: BOX_SCHEMA
+        },
+        required: ["id", "width", "length"]
+      }
+    },
+    exits: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          width: { type: Type.NUMBER, description: "Clear width in millimetres." },
+          travelDistance: { type: Type.NUMBER, description: "Longest exit access travel distance to this exit in metres." },
+          boundingBox: BOX_SCHEMA
+        },
+        required: ["id", "width"]
+      }
+    }
+  },
+  required: ["rooms", "doors", "corridors", "exits"]
+};
+
+const MAX_VECTOR_ITEMS = 400; // Keeps the extracted CAD data within a reasonable prompt size
+
+// Serializes CAD vector data so the model can use exact values instead of estimating from pixels
+const describeVectorData = (vectorData: DrawingVectorData): string => {
+  const payload = {
+    units: vectorData.units,
+    extents: vectorData.extents,
+    layers: vectorData.layers,
+    entityCounts: vectorData.entityCounts,
+    dimensions: vectorData.dimensions.slice(0, MAX_VECTOR_ITEMS),
+    texts: vectorData.texts.slice(0, MAX_VECTOR_ITEMS),
+    closedShapes: vectorData.closedShapes
+  };
+  return `The drawing was rendered from a CAD (DXF) file. Extracted vector data follows.
+Dimension values are exact and expressed in "${vectorData.units}"; use them instead of estimating sizes from pixels.
+Every "position" is [y, x] and every "boundingBox" is [ymin, xmin, ymax, xmax], normalized 0-1 on the provided image.
+${JSON.stringify(payload)}`;
+};
+
+// Schema for structured output
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    overallScore: { type: Type.NUMBER, description: "A score from 0 to 100 based on compliance." },
+    summary: { type: Type.STRING, description: "Executive summary of the compliance scan." },
+    findings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          category: { type: Type.STRING },
+          description: { type: Type.STRING },
+          reference: { type: Type.STRING, description: "The specific SBC code reference." },
+          status: { type: Type.STRING, enum: ["PASS", "FAIL", "WARNING", "NEEDS_CLARIFICATION"] },
+          severity: { type: Type.STRING, enum: ["CRITICAL", "MAJOR", "MINOR", "INFO"], description: "How serious the issue is; INFO for passing findings." },
+          lifeSafety: { type: Type.BOOLEAN, description: "True when the issue affects occupant life safety (egress, fire protection, alarms, structural stability)." },
+          recommendation: { type: Type.STRING },
+          location: { type: Type.STRING, description: "Approximate location on drawing." },
+          boundingBox: BOX_SCHEMA,
+          measurement: MEASUREMENT_SCHEMA
+        },
+        required: ["id", "category", "description", "status", "recommendation"]
+      }
+    },
+    planData: PLAN_DATA_SCHEMA
+  },
+  required: ["overallScore", "summary", "findings"]
+};
+
+export const geminiAnalysisProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  analyzeDrawing: async ({ imageBase64, mimeType, vectorData, building }) => {
+    const buildingText = buildingPrompt(building);
+    const response = await getClient().models.generateContent({
+      model: MODEL,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType,
+              data: imageBase64
+            }
+          },
+          {
+            text: "Analyze this engineering drawing for Saudi Building Code compliance. Focus on fire safety, egress, dimensions, and room labeling. Return a detailed JSON report."
+          },
+          ...(vectorData ? [{ text: describeVectorData(vectorData) }] : []),
+          ...(buildingText ? [{ text: buildingText }] : [])
+        ]
+      },
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION_ANALYST,
+        responseMimeType: "application/json",
+        responseSchema: RESPONSE_SCHEMA
+      }
+    });
+
+    if (!response.text) throw new Error("No data returned from Gemini");
+    return JSON.parse(response.text);
+  }
+};
+
+export const geminiChatProvider: ChatProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  sendMessage: async (history, message, clauses) => {
+    const chat = getClient().chats.create({
+      model: MODEL,
+      history: history,
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION_CHAT,
+      },
+    });
+
+    const context = clauses.length > 0
+      ? `Reference clauses:\n${formatClauseContext(clauses)}`
+      : 'Reference clauses: none in the library matched this question.';
+    const result = await chat.sendMessage({ message: `${message}\n\n${context}` });
+    return result.text;
+  }
+};
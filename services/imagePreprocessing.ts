@@ -0,0 +1,327 @@
+import { PlanData, PreprocessingOptions } from "../types";
+
+export const DEFAULT_PREPROCESSING: PreprocessingOptions = {
+  deskew: true,
+  enhanceContrast: true,
+  cropMargins: true,
+  binarize: false,
+  maxDimension: 3000
+};
+
+/** Thrown when the drawing image cannot be decoded by the browser. */
+export class ImageDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageDecodeError';
+  }
+}
+
+/**
+ * How a preprocessed image relates to the image it was made from: the source was rotated
+ * about its center by `rotation` (radians, canvas convention) and then cropped to `crop`
+ * ([ymin, xmin, ymax, xmax] of the rotated frame, normalized). Scaling and pixel
+ * adjustments do not move normalized coordinates.
+ */
+export interface ImageTransform {
+  rotation: number;
+  crop: number[];
+  width: number; // Source image size in pixels; rotation happens in pixel space
+  height: number;
+}
+
+export interface PreprocessedImage {
+  imageBase64: string;
+  transform: ImageTransform;
+  steps: string[]; // Human-readable list of what was applied, e.g. "Deskewed 1.5°"
+}
+
+const ANALYSIS_SIZE_PX = 1000; // Skew and margin detection run on a downsampled copy
+const MAX_SKEW_DEG = 10;
+const DARK_THRESHOLD = 128;
+const MARGIN_PADDING = 0.01;
+
+// Magic numbers of the formats the analysis providers accept
+const SIGNATURES: { mimeType: string; matches: (bytes: string) => boolean }[] = [
+  { mimeType: 'image/png', matches: b => b.startsWith('\x89PNG') },
+  { mimeType: 'image/jpeg', matches: b => b.startsWith('\xFF\xD8\xFF') },
+  { mimeType: 'image/webp', matches: b => b.startsWith('RIFF') && b.slice(8, 12) === 'WEBP' },
+  { mimeType: 'image/gif', matches: b => b.startsWith('GIF8') }
+];
+
+/** Detects the image format from the file's leading bytes; returns undefined when unknown. */
+export const sniffImageMimeType = (base64: string): string | undefined => {
+  let bytes: string;
+  try {
+    bytes = atob(base64.slice(0, 16)); // 12 bytes cover every signature above
+  } catch {
+    return undefined;
+  }
+  return SIGNATURES.find(s => s.matches(bytes))?.mimeType;
+};
+
+/** MIME type for a base64 image; defaults to JPEG, the format our own renderers produce. */
+export const detectImageMimeType = (base64: string): string => sniffImageMimeType(base64) || 'image/jpeg';
+
+export const toDataUrl = (base64: string) => `data:${detectImageMimeType(base64)};base64,${base64}`;
+
+const loadImage = (base64: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new ImageDecodeError("The drawing image could not be decoded."));
+  img.src = toDataUrl(base64);
+});
+
+const get2dContext = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas rendering is not available in this browser.");
+  return ctx;
+};
+
+const luminance = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+// Draws the image, optionally rotated about its center, onto a small canvas and returns a dark-pixel mask
+const darkPixelMask = (img: HTMLImageElement, rotation: number) => {
+  const scale = Math.min(1, ANALYSIS_SIZE_PX / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = get2dContext(canvas);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(rotation);
+  ctx.drawImage(img, -width / 2, -height / 2, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const mask = new Uint8Array(width * height);
+  for (let p = 0; p < mask.length; p++) mask[p] = luminance(data, p * 4) < DARK_THRESHOLD ? 1 : 0;
+  return { mask, width, height };
+};
+
+/**
+ * Estimates the skew of the drawing in radians by finding the angle at which dark pixels
+ * collapse into the sharpest horizontal rows (projection-profile method).
+ */
+const estimateSkew = (mask: Uint8Array, width: number, height: number): number => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) { xs.push(x - width / 2); ys.push(y - height / 2); }
+    }
+  }
+  if (xs.length < 100) return 0;
+
+  const rowCount = Math.ceil(Math.hypot(width, height)) + 2;
+  const offset = rowCount / 2;
+  const score = (deg: number) => {
+    const a = deg * Math.PI / 180;
+    const sin = Math.sin(a);
+    const cos = Math.cos(a);
+    const rows = new Float64Array(rowCount);
+    for (let i = 0; i < xs.length; i++) rows[Math.round(-xs[i] * sin + ys[i] * cos + offset)]++;
+    return rows.reduce((sum, n) => sum + n * n, 0);
+  };
+
+  const search = (from: number, to: number, step: number) => {
+    let best = 0;
+    let bestScore = -1;
+    for (let deg = from; deg <= to + 1e-9; deg += step) {
+      const s = score(deg);
+      if (s > bestScore) { bestScore = s; best = deg; }
+    }
+    return best;
+  };
+  const coarse = search(-MAX_SKEW_DEG, MAX_SKEW_DEG, 0.5);
+  return search(coarse - 0.5, coarse + 0.5, 0.1) * Math.PI / 180;
+};
+
+// Normalized bounds of the drawn content; sparse rows and columns (scan noise) are ignored
+const contentBounds = (mask: Uint8Array, width: number, height: number): number[] => {
+  const rowCounts = new Uint32Array(height);
+  const colCounts = new Uint32Array(width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) { rowCounts[y]++; colCounts[x]++; }
+    }
+  }
+  const first = (counts: Uint32Array, min: number) => counts.findIndex(n => n > min);
+  const last = (counts: Uint32Array, min: number) => counts.length - 1 - Array.from(counts).reverse().findIndex(n => n > min);
+  const minRow = Math.max(2, width * 0.002);
+  const minCol = Math.max(2, height * 0.002);
+  const top = first(rowCounts, minRow);
+  const left = first(colCounts, minCol);
+  if (top < 0 || left < 0) return [0, 0, 1, 1]; // Blank sheet; nothing to crop to
+
+  return [
+    Math.max(0, top / height - MARGIN_PADDING),
+    Math.max(0, left / width - MARGIN_PADDING),
+    Math.min(1, (last(rowCounts, minRow) + 1) / height + MARGIN_PADDING),
+    Math.min(1, (last(colCounts, minCol) + 1) / width + MARGIN_PADDING)
+  ];
+};
+
+// Linear stretch so the 1st-99th luminance percentiles span the full range.
+// Returns false, leaving the pixels alone, when the range is already full or too narrow to stretch.
+const stretchContrast = (data: Uint8ClampedArray): boolean => {
+  const histogram = new Uint32Array(256);
+  const pixels = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) histogram[Math.round(luminance(data, i))]++;
+  const percentile = (fraction: number) => {
+    let seen = 0;
+    for (let v = 0; v < 256; v++) {
+      seen += histogram[v];
+      if (seen >= pixels * fraction) return v;
+    }
+    return 255;
+  };
+  const lo = percentile(0.01);
+  const hi = percentile(0.99);
+  if (hi - lo < 10 || (lo === 0 && hi === 255)) return false;
+  const gain = 255 / (hi - lo);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] - lo) * gain;
+    data[i + 1] = (data[i + 1] - lo) * gain;
+    data[i + 2] = (data[i + 2] - lo) * gain;
+  }
+  return true;
+};
+
+// Black-and-white conversion with Otsu's threshold
+const binarizePixels = (data: Uint8ClampedArray) => {
+  const histogram = new Uint32Array(256);
+  const pixels = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) histogram[Math.round(luminance(data, i))]++;
+
+  let total = 0;
+  for (let v = 0; v < 256; v++) total += v * histogram[v];
+  let background = 0;
+  let weightedBackground = 0;
+  let threshold = DARK_THRESHOLD;
+  let bestVariance = 0;
+  for (let v = 0; v < 256; v++) {
+    background += histogram[v];
+    if (background === 0) continue;
+    const foreground = pixels - background;
+    if (foreground === 0) break;
+    weightedBackground += v * histogram[v];
+    const meanBackground = weightedBackground / background;
+    const meanForeground = (total - weightedBackground) / foreground;
+    const variance = background * foreground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) { bestVariance = variance; threshold = v; }
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    const value = luminance(data, i) > threshold ? 255 : 0;
+    data[i] = data[i + 1] = data[i + 2] = value;
+  }
+};
+
+/**
+ * Cleans up a scanned drawing before analysis. Every step is optional; when none of them
+ * changes the image the original bytes are returned untouched. Boxes the model reports on
+ * the result must be mapped back with mapBoxToSource.
+ */
+export const preprocessImage = async (base64: string, options: PreprocessingOptions): Promise<PreprocessedImage> => {
+  const img = await loadImage(base64);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const steps: string[] = [];
+
+  let rotation = 0;
+  if (options.deskew) {
+    const { mask, width: w, height: h } = darkPixelMask(img, 0);
+    const skew = estimateSkew(mask, w, h);
+    if (Math.abs(skew) >= 0.1 * Math.PI / 180) {
+      rotation = -skew;
+      steps.push(`Deskewed ${(skew * 180 / Math.PI).toFixed(1)}°`);
+    }
+  }
+
+  let crop = [0, 0, 1, 1];
+  if (options.cropMargins) {
+    const { mask, width: w, height: h } = darkPixelMask(img, rotation);
+    crop = contentBounds(mask, w, h);
+    const kept = (crop[2] - crop[0]) * (crop[3] - crop[1]);
+    if (kept > 0.98) crop = [0, 0, 1, 1];
+    else steps.push(`Cropped margins (${Math.round((1 - kept) * 100)}% removed)`);
+  }
+
+  const cropWidth = (crop[3] - crop[1]) * width;
+  const cropHeight = (crop[2] - crop[0]) * height;
+  const scale = options.maxDimension ? Math.min(1, options.maxDimension / Math.max(cropWidth, cropHeight)) : 1;
+  if (scale < 1) steps.push(`Downsized to ${Math.round(Math.max(cropWidth, cropHeight) * scale)}px`);
+  // Pixel steps are recorded once applied, since contrast stretching may find nothing to do
+  const adjustsPixels = options.enhanceContrast || options.binarize;
+
+  const transform: ImageTransform = { rotation, crop, width, height };
+  if (steps.length === 0 && !adjustsPixels) return { imageBase64: base64, transform, steps };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(cropWidth * scale));
+  canvas.height = Math.max(1, Math.round(cropHeight * scale));
+  const ctx = get2dContext(canvas);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.translate(-crop[1] * width + width / 2, -crop[0] * height + height / 2);
+  ctx.rotate(rotation);
+  ctx.drawImage(img, -width / 2, -height / 2);
+
+  if (adjustsPixels) {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    if (options.enhanceContrast && stretchContrast(pixels.data)) steps.push('Enhanced contrast');
+    if (options.binarize) {
+      binarizePixels(pixels.data);
+      steps.push('Binarized');
+    }
+    ctx.putImageData(pixels, 0, 0);
+  }
+  if (steps.length === 0) return { imageBase64: base64, transform, steps };
+
+  // Bilevel images compress far better as PNG and JPEG would blur the edges
+  const dataUrl = options.binarize ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', 0.9);
+  return { imageBase64: dataUrl.split(',')[1], transform, steps };
+};
+
+/** Maps a normalized [y, x] point on the preprocessed image back onto the source image. */
+export const mapPointToSource = (point: number[], transform: ImageTransform): number[] => {
+  const { rotation, crop, width, height } = transform;
+  const y = crop[0] + point[0] * (crop[2] - crop[0]);
+  const x = crop[1] + point[1] * (crop[3] - crop[1]);
+  // Undo the rotation about the image center, in pixels so the aspect ratio is respected
+  const px = (x - 0.5) * width;
+  const py = (y - 0.5) * height;
+  const cos = Math.cos(-rotation);
+  const sin = Math.sin(-rotation);
+  return [(px * sin + py * cos) / height + 0.5, (px * cos - py * sin) / width + 0.5];
+};
+
+/**
+ * Maps a [ymin, xmin, ymax, xmax] box on the preprocessed image back onto the source image.
+ * A deskewed box becomes the axis-aligned box around its rotated corners.
+ */
+export const mapBoxToSource = (box: number[], transform: ImageTransform): number[] => {
+  const corners = [[box[0], box[1]], [box[0], box[3]], [box[2], box[1]], [box[2], box[3]]]
+    .map(corner => mapPointToSource(corner, transform));
+  const ys = corners.map(c => c[0]);
+  const xs = corners.map(c => c[1]);
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  return [clamp(Math.min(...ys)), clamp(Math.min(...xs)), clamp(Math.max(...ys)), clamp(Math.max(...xs))];
+};
+
+/** Moves plan element boxes from the preprocessed image back onto the source image. */
+export const mapPlanToSource = (plan: PlanData, transform: ImageTransform): PlanData => {
+  const move = <T extends { boundingBox?: number[] }>(items: T[]): T[] =>
+    items.map(item => ({ ...item, boundingBox: item.boundingBox && mapBoxToSource(item.boundingBox, transform) }));
+  return {
+    rooms: move(plan.rooms),
+    doors: move(plan.doors),
+    corridors: move(plan.corridors),
+    exits: move(plan.exits),
+    occupantLoad: plan.occupantLoad
+  };
+};
@@ -0,0 +1,191 @@
+import { ComplianceStatus, FindingSeverity } from "../types";
+import { AnalysisProvider, AnalysisResult, ChatProvider } from "./analysisProvider";
+import { citationOf } from "./chatGrounding";
+
+// Short pause so loading states are visible during demos
+const LOCAL_LATENCY_MS = 600;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Stable string hash (FNV-1a) used to pick a fixture for a given upload
+const hash = (value: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const ANALYSIS_FIXTURES: AnalysisResult[] = [
+  {
+    overallScore: 72,
+    summary: "Offline demo analysis of a residential floor plan. Egress is generally adequate, but one dead-end corridor and an undersized bedroom door need attention.",
+    findings: [
+      {
+        id: "f-1",
+        category: "Fire Safety",
+        description: "Dead-end corridor serving the bedroom wing exceeds the permitted length.",
+        reference: "SBC 201 - 1020.4",
+        status: ComplianceStatus.FAIL,
+        severity: FindingSeverity.MAJOR,
+        lifeSafety: true,
+        recommendation: "Reconfigure the corridor to provide a second path of egress or reduce the dead end to 6m.",
+        location: "East wing corridor",
+        boundingBox: [0.22, 0.58, 0.34, 0.92]
+      },
+      {
+        id: "f-2",
+        category: "Accessibility",
+        description: "Bedroom 2 door appears narrower than the required clear width.",
+        reference: "SBC 201 - 1010.1.1",
+        status: ComplianceStatus.WARNING,
+        severity: FindingSeverity.MINOR,
+        recommendation: "Confirm the clear width on the door schedule; provide at least 900mm.",
+        location: "Bedroom 2",
+        boundingBox: [0.38, 0.64, 0.44, 0.7]
+      },
+      {
+        id: "f-3",
+        category: "Fire Safety",
+        description: "Smoke alarms are shown in all sleeping rooms.",
+        reference: "SBC 801 - 907.2.11",
+        status: ComplianceStatus.PASS,
+        severity: FindingSeverity.INFO,
+        recommendation: "No action required.",
+        location: "Bedrooms",
+        boundingBox: [0.4, 0.1, 0.7, 0.5]
+      },
+      {
+        id: "f-4",
+        category: "Dimensions",
+        description: "Ceiling height is not annotated for the living room.",
+        reference: "SBC 201 - 1208.2",
+        status: ComplianceStatus.NEEDS_CLARIFICATION,
+        severity: FindingSeverity.INFO,
+        recommendation: "Add a section or note confirming a minimum ceiling height of 2.4m.",
+        location: "Living room",
+        boundingBox: [0.55, 0.08, 0.85, 0.45]
+      }
+    ],
+    planData: {
+      occupantLoad: 12,
+      rooms: [
+        { id: "R1", name: "Living Room", area: 28.4, isHabitable: true, boundingBox: [0.55, 0.08, 0.85, 0.45] },
+        { id: "R2", name: "Bedroom 2", area: 6.1, isHabitable: true, boundingBox: [0.36, 0.6, 0.55, 0.85] }
+      ],
+      doors: [
+        { id: "D1", clearWidth: 1000, isExitDoor: true, boundingBox: [0.88, 0.2, 0.92, 0.28] },
+        { id: "D2", clearWidth: 800, boundingBox: [0.38, 0.64, 0.44, 0.7] }
+      ],
+      corridors: [
+        { id: "C1", width: 1200, length: 9.5, deadEndLength: 7.2, boundingBox: [0.22, 0.58, 0.34, 0.92] }
+      ],
+      exits: [
+        { id: "E1", width: 1000, travelDistance: 24, boundingBox: [0.88, 0.2, 0.92, 0.28] }
+      ]
+    }
+  },
+  {
+    overallScore: 58,
+    summary: "Offline demo analysis of an office floor. The floor has a single exit for its occupant load and a narrow service corridor.",
+    findings: [
+      {
+        id: "f-1",
+        category: "Fire Safety",
+        description: "Only one exit is provided from the open-plan office area.",
+        reference: "SBC 201 - 1006.3.2",
+        status: ComplianceStatus.FAIL,
+        severity: FindingSeverity.CRITICAL,
+        lifeSafety: true,
+        recommendation: "Provide a second exit remote from the first.",
+        location: "Open-plan office",
+        boundingBox: [0.15, 0.1, 0.6, 0.7]
+      },
+      {
+        id: "f-2",
+        category: "Egress",
+        description: "Service corridor width is below the minimum for an occupant load over 50.",
+        reference: "SBC 201 - 1020.2",
+        status: ComplianceStatus.FAIL,
+        severity: FindingSeverity.MAJOR,
+        lifeSafety: true,
+        recommendation: "Widen the service corridor to at least 1120mm.",
+        location: "North service corridor",
+        boundingBox: [0.05, 0.3, 0.12, 0.9]
+      },
+      {
+        id: "f-3",
+        category: "Accessibility",
+        description: "Accessible toilet is provided near the core.",
+        reference: "SBC 201 - 1109.2",
+        status: ComplianceStatus.PASS,
+        severity: FindingSeverity.INFO,
+        recommendation: "No action required.",
+        location: "Core",
+        boundingBox: [0.62, 0.72, 0.78, 0.88]
+      }
+    ],
+    planData: {
+      occupantLoad: 85,
+      rooms: [
+        { id: "R1", name: "Open Office", area: 420, boundingBox: [0.15, 0.1, 0.6, 0.7] }
+      ],
+      doors: [
+        { id: "D1", clearWidth: 1800, isExitDoor: true, boundingBox: [0.9, 0.45, 0.95, 0.55] }
+      ],
+      corridors: [
+        { id: "C1", width: 1000, length: 22, boundingBox: [0.05, 0.3, 0.12, 0.9] }
+      ],
+      exits: [
+        { id: "E1", width: 1800, travelDistance: 48, boundingBox: [0.9, 0.45, 0.95, 0.55] }
+      ]
+    }
+  }
+];
+
+const CHAT_REPLIES: { keywords: string[], reply: string }[] = [
+  {
+    keywords: ['dead', 'corridor'],
+    reply: "Under [SBC 201 - 1020.4], dead-end corridors are generally limited to 6m. Where the building is fully sprinklered, some occupancies permit longer dead ends. The usual fix is to loop the corridor back to a second exit path or relocate the rooms at the end."
+  },
+  {
+    keywords: ['door', 'width'],
+    reply: "[SBC 201 - 1010.1.1] sets the minimum clear opening of egress doors. For this project we check against 900mm clear, measured between the face of the door and the stop with the door open at 90 degrees."
+  },
+  {
+    keywords: ['exit', 'egress'],
+    reply: "The number of exits depends on the occupant load [SBC 201 - 1006.3.2]: one exit up to 49 occupants, two up to 500, three up to 1,000 and four above that. Exits should be placed remote from each other."
+  },
+  {
+    keywords: ['sprinkler', 'fire'],
+    reply: "[SBC 801 - 903] sets where automatic sprinkler systems are required. Sprinklers also relax several egress limits, such as travel distance and dead-end length, so confirm the sprinkler status before resolving egress findings."
+  }
+];
+
+export const localAnalysisProvider: AnalysisProvider = {
+  id: 'local',
+  label: 'Offline demo',
+  analyzeDrawing: async ({ imageBase64, fileName }) => {
+    await delay(LOCAL_LATENCY_MS);
+    const fixture = ANALYSIS_FIXTURES[hash(`${fileName}:${imageBase64.length}`) % ANALYSIS_FIXTURES.length];
+    // Deep copy so callers can never mutate the shared fixture
+    return JSON.parse(JSON.stringify(fixture));
+  }
+};
+
+export const localChatProvider: ChatProvider = {
+  id: 'local',
+  label: 'Offline demo',
+  sendMessage: async (_history, message, clauses) => {
+    await delay(LOCAL_LATENCY_MS);
+    const lower = message.toLowerCase();
+    const match = CHAT_REPLIES.find(r => r.keywords.some(k => lower.includes(k)));
+    if (match) return match.reply;
+    // Without a canned reply, quote the most relevant clause the library found
+    const [clause] = clauses;
+    return clause
+      ? `${citationOf(clause)} ${clause.title}: ${clause.text}`
+      : "I'm running in offline demo mode, so I can only answer common questions about corridors, doors, exits and sprinklers. Connect a Gemini API key for full consultations.";
+  }
+};
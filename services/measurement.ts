@@ -0,0 +1,136 @@
+import { CalibrationMethod, DrawingMeasurement, MeasuredValue, MeasurementKind, SheetCalibration } from "../types";
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Meters per drawing unit for the units reported by the DXF parser
+export const UNIT_TO_METERS: Record<string, number> = {
+  mm: 0.001, cm: 0.01, dm: 0.1, m: 1, in: 0.0254, ft: 0.3048
+};
+
+export const DEFAULT_SCAN_DPI = 150;
+
+/** Pixel distance between two normalized [y, x] points on an image. */
+export const pixelDistance = (a: number[], b: number[], size: ImageSize) =>
+  Math.hypot((b[0] - a[0]) * size.height, (b[1] - a[1]) * size.width);
+
+export const calibrateFromPoints = (
+  sheetIndex: number,
+  a: number[],
+  b: number[],
+  knownMeters: number,
+  size: ImageSize
+): SheetCalibration => {
+  const pixels = pixelDistance(a, b, size);
+  if (pixels <= 0 || knownMeters <= 0) throw new Error("Pick two different points and enter a positive distance.");
+  return {
+    sheetIndex,
+    method: CalibrationMethod.TWO_POINT,
+    metersPerPixel: knownMeters / pixels,
+    imageWidth: size.width,
+    imageHeight: size.height,
+    description: `Reference ${knownMeters.toFixed(2)} m`
+  };
+};
+
+/** Parses "1:100", "1/50" or "200" into the scale denominator. */
+export const parseScale = (input: string): number | null => {
+  const match = input.trim().match(/^(?:1\s*[:/]\s*)?(\d+(?:\.\d+)?)$/);
+  const denominator = match ? parseFloat(match[1]) : NaN;
+  return denominator > 0 ? denominator : null;
+};
+
+export const calibrateFromScale = (
+  sheetIndex: number,
+  denominator: number,
+  paperMmPerPixel: number,
+  size: ImageSize,
+  dpi?: number
+): SheetCalibration => ({
+  sheetIndex,
+  method: CalibrationMethod.SHEET_SCALE,
+  metersPerPixel: paperMmPerPixel * denominator / 1000,
+  imageWidth: size.width,
+  imageHeight: size.height,
+  description: dpi ? `1:${denominator} at ${dpi} DPI` : `1:${denominator}`
+});
+
+export const calibrateFromCadUnits = (sheetIndex: number, metersPerPixel: number, size: ImageSize): SheetCalibration => ({
+  sheetIndex,
+  method: CalibrationMethod.CAD_UNITS,
+  metersPerPixel,
+  imageWidth: size.width,
+  imageHeight: size.height,
+  description: 'From CAD drawing units'
+});
+
+/** Real-world distance in meters between two normalized [y, x] points. */
+export const measureDistance = (a: number[], b: number[], calibration: SheetCalibration) =>
+  pixelDistance(a, b, { width: calibration.imageWidth, height: calibration.imageHeight }) * calibration.metersPerPixel;
+
+/** Real-world width and height in meters of a [ymin, xmin, ymax, xmax] box. */
+export const measureBox = (box: number[], calibration: SheetCalibration) => ({
+  width: (box[3] - box[1]) * calibration.imageWidth * calibration.metersPerPixel,
+  height: (box[2] - box[0]) * calibration.imageHeight * calibration.metersPerPixel
+});
+
+/** Length in meters along a chain of normalized [y, x] points. */
+export const measurePolyline = (points: number[][], calibration: SheetCalibration) =>
+  points.slice(1).reduce((sum, point, i) => sum + measureDistance(points[i], point, calibration), 0);
+
+/** Area in square meters of a closed polygon of normalized [y, x] points (shoelace formula). */
+export const measurePolygonArea = (points: number[][], calibration: SheetCalibration) => {
+  const px = points.map(([y, x]) => [y * calibration.imageHeight, x * calibration.imageWidth]);
+  const twiceArea = px.reduce((sum, [y, x], i) => {
+    const [ny, nx] = px[(i + 1) % px.length];
+    return sum + x * ny - nx * y;
+  }, 0);
+  return Math.abs(twiceArea) / 2 * calibration.metersPerPixel ** 2;
+};
+
+// Fewest points that make a complete measurement of each kind
+export const MIN_MEASUREMENT_POINTS: Record<MeasurementKind, number> = {
+  [MeasurementKind.DISTANCE]: 2,
+  [MeasurementKind.POLYLINE]: 2,
+  [MeasurementKind.AREA]: 3
+};
+
+const MEASUREMENT_LABELS: Record<MeasurementKind, string> = {
+  [MeasurementKind.DISTANCE]: 'Distance',
+  [MeasurementKind.POLYLINE]: 'Path length',
+  [MeasurementKind.AREA]: 'Area'
+};
+
+/** Real-world value of a reviewer measurement, or undefined while its sheet has no scale. */
+export const evaluateMeasurement = (measurement: DrawingMeasurement, calibration?: SheetCalibration): MeasuredValue | undefined => {
+  if (!calibration) return undefined;
+  const label = measurement.label || MEASUREMENT_LABELS[measurement.kind];
+  if (measurement.kind === MeasurementKind.AREA) {
+    return { label, value: measurePolygonArea(measurement.points, calibration), unit: 'm²' };
+  }
+  return { label, value: measurePolyline(measurement.points, calibration), unit: 'm' };
+};
+
+export const formatLength = (meters: number) =>
+  meters < 1 ? `${Math.round(meters * 1000)}mm` : `${meters.toFixed(2)}m`;
+
+export const formatQuantity = (value: number, unit: string) => {
+  if (unit === 'mm') return `${Math.round(value)}${unit}`;
+  return `${value.toFixed(value < 1 ? 2 : 1)}${unit}`; // Keep centimetres on sub-metre values, e.g. door widths
+};
+
+/** e.g., "Dead-end corridor 5.4m / limit 6.0m" */
+export const formatMeasurement = (m: MeasuredValue) => {
+  const limit = m.limit !== undefined
+    ? ` / ${m.limitType === 'min' ? 'min' : 'limit'} ${formatQuantity(m.limit, m.unit)}`
+    : '';
+  return `${m.label} ${formatQuantity(m.value, m.unit)}${limit}`;
+};
+
+/** Whether a measurement satisfies its limit; undefined when there is no limit. */
+export const isWithinLimit = (m: MeasuredValue): boolean | undefined => {
+  if (m.limit === undefined) return undefined;
+  return m.limitType === 'min' ? m.value >= m.limit : m.value <= m.limit;
+};
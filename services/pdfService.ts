@@ -0,0 +1,54 @@
+import { getDocument, GlobalWorkerOptions, version } from "pdfjs-dist";
+import { DrawingSheet } from "../types";
+
+// pdf.js parses documents off the main thread; load the worker matching the bundled version
+GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${version}/build/pdf.worker.min.mjs`;
+
+const TARGET_SHEET_WIDTH_PX = 2000; // Enough resolution for the model to read room tags and dimensions
+const MAX_SHEETS = 30;
+
+/**
+ * Rasterizes every page of a PDF drawing set into a JPEG sheet image,
+ * ready to be sent to analyzeDrawingImage one sheet at a time.
+ */
+export const rasterizePdf = async (file: File): Promise<DrawingSheet[]> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await getDocument({ data }).promise;
+
+  try {
+    if (pdf.numPages > MAX_SHEETS) {
+      throw new Error(`Drawing set has ${pdf.numPages} pages; at most ${MAX_SHEETS} sheets can be analyzed at once.`);
+    }
+
+    const sheets: DrawingSheet[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const scale = TARGET_SHEET_WIDTH_PX / baseViewport.width;
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error("Canvas rendering is not available in this browser.");
+
+      // Drawings are often transparent; flatten onto white so the JPEG isn't black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvas, canvasContext: context, viewport }).promise;
+
+      sheets.push({
+        index: pageNumber - 1,
+        label: `Sheet ${pageNumber}`,
+        imageBase64: canvas.toDataURL('image/jpeg', 0.9).split(',')[1],
+        // PDF user space is 1/72 inch, so the paper size of a pixel is known exactly
+        paperMmPerPixel: 25.4 / 72 / scale
+      });
+      page.cleanup();
+    }
+    return sheets;
+  } finally {
+    await pdf.destroy();
+  }
+};
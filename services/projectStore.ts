@@ -0,0 +1,133 @@
+import { Drawing, Project, ReportSummary, Revision } from "../types";
+import { STORES, createId, openDatabase, requestToPromise, transactionDone } from "./database";
+
+// Latest compliance state of a project: every drawing counts with its newest revision only
+export interface ProjectStatus {
+  project: Project;
+  drawingCount: number;
+  revisionCount: number;
+  averageScore?: number; // Undefined until a drawing has an analyzed revision
+  failCount: number;
+  warningCount: number;
+  lastUpdated?: string;
+}
+
+const getAll = async <T,>(store: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise<T[]>(db.transaction(store).objectStore(store).getAll());
+};
+
+const put = async <T,>(store: string, value: T): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).put(value);
+  await transactionDone(tx);
+  return value;
+};
+
+export const listProjects = async (): Promise<Project[]> =>
+  (await getAll<Project>(STORES.projects)).sort((a, b) => a.name.localeCompare(b.name));
+
+export const createProject = (name: string, location?: string): Promise<Project> =>
+  put<Project>(STORES.projects, {
+    id: createId('p'),
+    name: name.trim(),
+    location: location?.trim() || undefined,
+    createdAt: new Date().toISOString()
+  });
+
+export const listDrawings = async (): Promise<Drawing[]> =>
+  (await getAll<Drawing>(STORES.drawings)).sort((a, b) => a.name.localeCompare(b.name));
+
+export const createDrawing = (projectId: string, name: string): Promise<Drawing> =>
+  put<Drawing>(STORES.drawings, { id: createId('d'), projectId, name: name.trim(), createdAt: new Date().toISOString() });
+
+/** All revisions, oldest first within each drawing. */
+export const listRevisions = async (): Promise<Revision[]> =>
+  (await getAll<Revision>(STORES.revisions)).sort((a, b) => a.number - b.number);
+
+export const formatRevisionLabel = (number: number) => `Rev${String(number).padStart(2, '0')}`;
+
+/** Picks a revision label out of a file name, e.g. "Al-Malqa_Villa_Rev03.pdf" → "Rev03". */
+export const revisionLabelFromFileName = (fileName: string): string | undefined => {
+  const match = fileName.match(/(?:^|[\s_.-])rev(?:ision)?[\s_.-]?(\d{1,3})(?=$|[\s_.-])/i);
+  return match ? formatRevisionLabel(parseInt(match[1], 10)) : undefined;
+};
+
+/** Suggested drawing name for a new upload: the file name without extension or revision suffix. */
+export const drawingNameFromFileName = (fileName: string) =>
+  fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/[\s_.-]*rev(?:ision)?[\s_.-]?\d{1,3}$/i, '')
+    .replace(/[_]+/g, ' ')
+    .trim() || fileName;
+
+/**
+ * Records a new revision of a drawing for a saved report. The revision number is one
+ * higher than the drawing's latest; the label defaults to the matching "RevNN".
+ */
+export const addRevision = async (drawing: Drawing, reportId: string, fileName: string, label?: string): Promise<Revision> => {
+  const db = await openDatabase();
+  const existing = await requestToPromise<Revision[]>(
+    db.transaction(STORES.revisions).objectStore(STORES.revisions).index('drawingId').getAll(drawing.id)
+  );
+  const number = existing.reduce((max, r) => Math.max(max, r.number), 0) + 1;
+  return put<Revision>(STORES.revisions, {
+    id: createId('v'),
+    projectId: drawing.projectId,
+    drawingId: drawing.id,
+    number,
+    label: label?.trim() || formatRevisionLabel(number),
+    reportId,
+    fileName,
+    uploadedAt: new Date().toISOString()
+  });
+};
+
+export const deleteRevision = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.revisions, 'readwrite');
+  tx.objectStore(STORES.revisions).delete(id);
+  await transactionDone(tx);
+};
+
+/** Newest revision of each drawing, keyed by drawing id. */
+export const latestRevisions = (revisions: Revision[]): Map<string, Revision> => {
+  const latest = new Map<string, Revision>();
+  revisions.forEach(r => {
+    const current = latest.get(r.drawingId);
+    if (!current || r.number > current.number) latest.set(r.drawingId, r);
+  });
+  return latest;
+};
+
+export const summarizeProjects = (
+  projects: Project[],
+  drawings: Drawing[],
+  revisions: Revision[],
+  reports: ReportSummary[]
+): ProjectStatus[] => {
+  const latest = latestRevisions(revisions);
+  const reportById = new Map<string, ReportSummary>(reports.map(r => [r.id, r]));
+
+  return projects.map(project => {
+    const projectDrawings = drawings.filter(d => d.projectId === project.id);
+    const current = projectDrawings
+      .map(d => latest.get(d.id))
+      .filter((r): r is Revision => !!r)
+      .map(r => ({ revision: r, report: reportById.get(r.reportId) }))
+      .filter((entry): entry is { revision: Revision; report: ReportSummary } => !!entry.report);
+
+    return {
+      project,
+      drawingCount: projectDrawings.length,
+      revisionCount: revisions.filter(r => r.projectId === project.id).length,
+      averageScore: current.length > 0
+        ? Math.round(current.reduce((sum, c) => sum + c.report.overallScore, 0) / current.length)
+        : undefined,
+      failCount: current.reduce((sum, c) => sum + c.report.failCount, 0),
+      warningCount: current.reduce((sum, c) => sum + c.report.warningCount, 0),
+      lastUpdated: current.map(c => c.revision.uploadedAt).sort().pop()
+    };
+  });
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { compareReferences, parseReference } from "./referenceParser";
+
+describe("parseReference", () => {
+  it.each([
+    ['SBC 201 - 1020.4', 'SBC201-1020.4'],
+    ['SBC 201 Section 1020.4', 'SBC201-1020.4'],
+    ['SBC201-1020.4', 'SBC201-1020.4'],
+    ['See SBC 801, 907.2.11 for alarms', 'SBC801-907.2.11'],
+    ['SBC 201 - 1020.04', 'SBC201-1020.4']
+  ])("reads %s", (text, id) => {
+    expect(parseReference(text)?.id).toBe(id);
+  });
+
+  it("splits the number into chapter, section and subsections", () => {
+    expect(parseReference('SBC 201 - 1010.1.1')).toMatchObject({ code: 201, chapter: 10, section: 1010, subsections: [1, 1] });
+  });
+
+  it("takes a short leading number as the chapter", () => {
+    expect(parseReference('SBC 201 - 10.4.1')).toMatchObject({ chapter: 10, section: 10, subsections: [4, 1] });
+  });
+
+  it("returns undefined for text without an SBC reference", () => {
+    expect(parseReference('N/A')).toBeUndefined();
+    expect(parseReference('IBC 1020.4')).toBeUndefined();
+  });
+});
+
+describe("compareReferences", () => {
+  it("sorts numerically rather than as text", () => {
+    const sorted = ['SBC 201 - 1020.2', 'SBC 201 - 1006.3.2', 'SBC 201 - 1010.1.1'].sort(compareReferences);
+    expect(sorted).toEqual(['SBC 201 - 1006.3.2', 'SBC 201 - 1010.1.1', 'SBC 201 - 1020.2']);
+  });
+
+  it("orders by code first", () => {
+    expect(['SBC 801 - 903.2', 'SBC 201 - 1020.2'].sort(compareReferences)).toEqual(['SBC 201 - 1020.2', 'SBC 801 - 903.2']);
+  });
+
+  it("orders by chapter across numbering styles", () => {
+    const sorted = ['SBC 201 - 11.2', 'SBC 201 - 1020.4', 'SBC 201 - 10.4.1'].sort(compareReferences);
+    expect(sorted).toEqual(['SBC 201 - 10.4.1', 'SBC 201 - 1020.4', 'SBC 201 - 11.2']);
+  });
+
+  it("puts a section before its subsections", () => {
+    expect(['SBC 201 - 1020.4.1', 'SBC 201 - 1020.4'].sort(compareReferences)).toEqual(['SBC 201 - 1020.4', 'SBC 201 - 1020.4.1']);
+  });
+
+  it("sorts unparseable references last", () => {
+    expect(['N/A', 'SBC 201 - 1020.4'].sort(compareReferences)).toEqual(['SBC 201 - 1020.4', 'N/A']);
+  });
+});
@@ -0,0 +1,54 @@
+// "SBC 201 - 1020.4", "SBC 201 Section 1020.4", "SBC201-1020.4", "SBC 801, 907.2.11"
+export const REFERENCE_PATTERN = /SBC[\s-]*(\d{3,4})\s*(?:[-–—,:]\s*)?(?:(?:Section|Sec\.?|§)\s*)?(\d+(?:\.\d+)*)/gi;
+
+export interface ParsedReference {
+  id: string; // Canonical clause ID, e.g. "SBC201-1020.4"
+  code: number; // 201
+  chapter: number; // 10
+  section: number; // 1020
+  subsections: number[]; // [4]
+  number: string; // "1020.4"
+}
+
+/**
+ * Reads the first SBC reference out of free text. Section numbers carry their chapter
+ * (1020 is in Chapter 10); a short leading number such as the 10 in "10.4.1" is taken as
+ * the chapter itself. Returns undefined when the text names no SBC clause.
+ */
+export const parseReference = (text: string): ParsedReference | undefined => {
+  const match = new RegExp(REFERENCE_PATTERN.source, 'i').exec(text);
+  if (!match) return undefined;
+  const [section, ...subsections] = match[2].split('.').map(n => parseInt(n, 10));
+  const code = parseInt(match[1], 10);
+  // Normalize "1020.04" and similar so equal clauses get equal IDs
+  const number = [section, ...subsections].join('.');
+  return {
+    id: `SBC${code}-${number}`,
+    code,
+    chapter: section >= 100 ? Math.floor(section / 100) : section,
+    section,
+    subsections,
+    number
+  };
+};
+
+const compareParsed = (a: ParsedReference, b: ParsedReference) => {
+  if (a.code !== b.code) return a.code - b.code;
+  // Chapter first, so "11.2" sorts after "1020.4" whichever numbering style each uses
+  if (a.chapter !== b.chapter) return a.chapter - b.chapter;
+  if (a.section !== b.section) return a.section - b.section;
+  for (let i = 0; i < Math.min(a.subsections.length, b.subsections.length); i++) {
+    if (a.subsections[i] !== b.subsections[i]) return a.subsections[i] - b.subsections[i];
+  }
+  return a.subsections.length - b.subsections.length; // A section sorts before its subsections
+};
+
+/** Numeric clause order (1006.3.2 before 1010.1.1 before 1020.2); text that cannot be parsed sorts last. */
+export const compareReferences = (a: string, b: string): number => {
+  const pa = parseReference(a);
+  const pb = parseReference(b);
+  if (pa && pb) return compareParsed(pa, pb) || a.localeCompare(b);
+  if (pa) return -1;
+  if (pb) return 1;
+  return a.localeCompare(b);
+};
@@ -0,0 +1,142 @@
+import { ReportSummary, SbcClause } from "../types";
+import { SBC_CLAUSES } from "./sbcClauses";
+import { parseReference } from "./referenceParser";
+
+// Words that mean the same thing in a reviewer's question; any member finds the others
+const SYNONYM_GROUPS: string[][] = [
+  ['egress', 'exit', 'escape', 'evacuation'],
+  ['corridor', 'hallway', 'hall', 'passage', 'passageway'],
+  ['door', 'doorway', 'opening'],
+  ['stair', 'stairway', 'staircase', 'steps'],
+  ['sprinkler', 'sprinklered', 'suppression'],
+  ['alarm', 'detector', 'detection'],
+  ['width', 'wide', 'clear'],
+  ['distance', 'travel'],
+  ['toilet', 'bathroom', 'restroom', 'washroom', 'wc', 'lavatory'],
+  ['accessible', 'accessibility', 'disabled', 'wheelchair'],
+  ['ceiling', 'headroom'],
+  ['occupant', 'occupancy', 'people', 'persons'],
+  ['dead', 'deadend']
+];
+
+// Normalized Arabic terms and the English word they search for
+const ARABIC_TERMS: Record<string, string> = {
+  'مخرج': 'exit', 'مخارج': 'exit', 'خروج': 'egress', 'اخلاء': 'evacuation', 'هروب': 'escape',
+  'ممر': 'corridor', 'ممرات': 'corridor', 'مسدود': 'dead', 'مسدوده': 'dead',
+  'باب': 'door', 'ابواب': 'door',
+  'درج': 'stair', 'سلم': 'stair', 'درجات': 'stair',
+  'رشاش': 'sprinkler', 'رشاشات': 'sprinkler', 'مرشات': 'sprinkler', 'رش': 'sprinkler',
+  'حريق': 'fire', 'انذار': 'alarm', 'كشف': 'detection', 'دخان': 'smoke', 'طفايه': 'extinguisher', 'طفايات': 'extinguisher',
+  'عرض': 'width', 'مسافه': 'distance', 'انتقال': 'travel', 'ارتفاع': 'height', 'مساحه': 'area',
+  'غرفه': 'room', 'سقف': 'ceiling', 'اسقف': 'ceiling', 'حمام': 'toilet', 'مياه': 'toilet',
+  'شاغلين': 'occupant', 'اشغال': 'occupancy', 'طاقه': 'energy'
+};
+
+const STOP_WORDS = new Set<string>(['sbc', 'the', 'a', 'an', 'of', 'for', 'in', 'on', 'to', 'and', 'or', 'is', 'what', 'how', 'minimum', 'maximum', 'min', 'max', 'في', 'من', 'على', 'الى', 'عن', 'ما', 'هو']);
+
+const TITLE_WEIGHT = 3;
+const TEXT_WEIGHT = 1;
+const MAX_RESULTS = 8;
+
+const ARABIC_DIACRITICS = /[\u064B-\u0652\u0640]/g; // Harakat and tatweel
+
+const normalizeArabic = (word: string) => {
+  let w = word.replace(ARABIC_DIACRITICS, '').replace(/[أإآ]/g, 'ا').replace(/ة/g, 'ه').replace(/ى/g, 'ي');
+  if (w.length > 4 && w.startsWith('ال')) w = w.slice(2);
+  if (w.length > 4 && (w.startsWith('وال') || w.startsWith('بال') || w.startsWith('لل'))) w = w.slice(w.startsWith('لل') ? 2 : 3);
+  return w;
+};
+
+// Crude English stemming: enough for "exits"/"exit" and "doors"/"door"
+const stem = (word: string) => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map(word => /[\u0600-\u06FF]/.test(word) ? normalizeArabic(word) : stem(word));
+
+const synonymsOf = new Map<string, string[]>();
+SYNONYM_GROUPS.forEach(group => group.map(stem).forEach(word => synonymsOf.set(word, group.map(stem))));
+
+const SYNONYM_DISCOUNT = 0.8; // The reviewer's own word ranks above its synonyms
+
+/** The query word plus every word that should match it, with how much each match counts. */
+const expand = (term: string): [string, number][] => {
+  const english = ARABIC_TERMS[term] ? stem(ARABIC_TERMS[term]) : term;
+  const words = new Map<string, number>([[term, 1], [english, 1]]);
+  (synonymsOf.get(english) || []).forEach(word => { if (!words.has(word)) words.set(word, SYNONYM_DISCOUNT); });
+  return Array.from(words);
+};
+
+interface IndexedClause {
+  clause: SbcClause;
+  terms: Map<string, number>; // Term → weight; title words outrank body words
+}
+
+const buildIndex = (): IndexedClause[] =>
+  SBC_CLAUSES.map(clause => {
+    const terms = new Map<string, number>();
+    const add = (text: string, weight: number) =>
+      tokenize(text).forEach(t => terms.set(t, Math.max(terms.get(t) || 0, weight)));
+    add(clause.text, TEXT_WEIGHT);
+    add(clause.title, TITLE_WEIGHT);
+    if (clause.titleAr) add(clause.titleAr, TITLE_WEIGHT);
+    return { clause, terms };
+  });
+
+let index: IndexedClause[] | null = null;
+
+export interface RegulationSearchResult {
+  clause: SbcClause;
+  score: number;
+}
+
+/**
+ * Searches the clause library. Clause numbers ("1020.4", "SBC 201 - 1020.4") go straight to
+ * that clause and its subsections; words match titles, Arabic titles and clause text, with
+ * synonyms and Arabic terms expanded to their English equivalents. "SBC 801" limits results
+ * to that code.
+ */
+export const searchRegulations = (query: string, limit = MAX_RESULTS): RegulationSearchResult[] => {
+  index = index || buildIndex();
+  const reference = parseReference(query);
+  const codeMatch = /SBC[\s-]*(\d{3,4})/i.exec(query);
+  const code = codeMatch?.[1];
+  // Whatever is left once the code is removed is clause numbers and words
+  const rest = codeMatch ? query.replace(codeMatch[0], ' ') : query;
+  const numbers = rest.match(/\b\d{3,4}(?:\.\d+)*\b/g) || [];
+  const terms = tokenize(rest.replace(/\b\d+(?:\.\d+)*\b/g, ' ')).filter(t => !STOP_WORDS.has(t));
+
+  return index
+    .filter(({ clause }) => !code || clause.code === code)
+    .map(({ clause, terms: clauseTerms }) => {
+      let score = 0;
+      if (reference && reference.id === clause.id) score += 100;
+      numbers.forEach(n => {
+        if (clause.number === n) score += 50;
+        else if (clause.number.startsWith(`${n}.`)) score += 10;
+      });
+      terms.forEach(term => {
+        let best = 0;
+        expand(term).forEach(([word, factor]) => {
+          const exact = clauseTerms.get(word);
+          if (exact) best = Math.max(best, exact * factor);
+          // Partial words, so results appear while typing
+          else if (word.length >= 3) clauseTerms.forEach((weight, t) => { if (t.startsWith(word)) best = Math.max(best, (weight / 2) * factor); });
+        });
+        score += best;
+      });
+      return { clause, score };
+    })
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score || a.clause.id.localeCompare(b.clause.id))
+    .slice(0, limit);
+};
+
+/** Saved reports with findings citing the clause, and how many findings each has. */
+export const reportsCitingClause = (reports: ReportSummary[], clause: SbcClause): { report: ReportSummary; count: number }[] =>
+  reports
+    .filter(r => r.citedClauses?.[clause.id])
+    .map(r => ({ report: r, count: r.citedClauses![clause.id] }));
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisReport, ComplianceStatus } from "../types";
+import { BUNDLE_VERSION, BundleImportError, createBundle, parseBundle } from "./reportBundle";
+
+const report = (overrides: Partial<AnalysisReport> = {}): AnalysisReport => ({
+  fileName: 'ground-floor.png',
+  scanDate: '2024-05-01T10:00:00.000Z',
+  overallScore: 80,
+  summary: 'Two egress issues.',
+  imageBase64: 'aW1hZ2U=',
+  findings: [{
+    id: 'f1',
+    category: 'Egress',
+    description: 'Dead-end corridor exceeds the limit.',
+    reference: 'SBC 201 - 1020.4',
+    status: ComplianceStatus.FAIL,
+    recommendation: 'Shorten the dead end.'
+  }],
+  ...overrides
+});
+
+const bundleText = (reportValue: unknown, extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: 'sbcreport', version: BUNDLE_VERSION, exportedAt: '2024-05-02T00:00:00.000Z', report: reportValue, ...extra });
+
+describe("report bundles", () => {
+  it("round-trips a report without its local storage ids", () => {
+    const bundle = createBundle(report({ id: 'r1', projectId: 'p1', drawingId: 'd1', revisionId: 'v1' }), 'Reviewer');
+    const parsed = parseBundle(JSON.stringify(bundle));
+    expect(parsed.report).toEqual(report());
+    expect(parsed.exportedBy).toBe('Reviewer');
+  });
+
+  it("drops local storage ids from bundles that still carry them", () => {
+    const parsed = parseBundle(bundleText({ ...report(), id: 'r1', projectId: 'p1', drawingId: 'd1', revisionId: 'v1' }));
+    expect(parsed.report).not.toHaveProperty('id');
+    expect(parsed.report).not.toHaveProperty('projectId');
+    expect(parsed.report).not.toHaveProperty('revisionId');
+  });
+
+  it("repairs incomplete findings and records what was changed", () => {
+    const parsed = parseBundle(bundleText(report({ findings: [{ description: 'Ramp too steep.' }, { id: 'x' }] as never })));
+    expect(parsed.report.findings).toHaveLength(1);
+    expect(parsed.report.findings[0]).toMatchObject({ reference: 'N/A', status: ComplianceStatus.NEEDS_CLARIFICATION });
+    expect(parsed.report.diagnostics?.every(d => d.field.startsWith('Import: '))).toBe(true);
+  });
+
+  it("keeps review state on imported findings", () => {
+    const reviewed = { ...report().findings[0], review: { state: 'ACKNOWLEDGED', comments: [] } };
+    const parsed = parseBundle(bundleText(report({ findings: [reviewed] as never })));
+    expect(parsed.report.findings[0].review).toEqual(reviewed.review);
+  });
+
+  it("rejects files that are not usable bundles", () => {
+    expect(() => parseBundle('not json')).toThrow(BundleImportError);
+    expect(() => parseBundle(JSON.stringify({ format: 'other' }))).toThrow(BundleImportError);
+    expect(() => parseBundle(bundleText(report(), { version: BUNDLE_VERSION + 1 }))).toThrow(/newer version/);
+    expect(() => parseBundle(bundleText({ ...report(), findings: undefined }))).toThrow(BundleImportError);
+    expect(() => parseBundle(bundleText({ ...report(), imageBase64: undefined }))).toThrow(/drawing image/);
+  });
+});
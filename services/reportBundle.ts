@@ -0,0 +1,126 @@
+import { AnalysisReport, ReportDiagnostic } from "../types";
+import { normalizeFinding } from "./reportValidator";
+
+export const BUNDLE_EXTENSION = 'sbcreport';
+const BUNDLE_FORMAT = 'sbcreport';
+
+// Bump when the bundle layout or the stored report shape changes, and add a migration below
+export const BUNDLE_VERSION = 1;
+
+// A self-contained, shareable copy of an analyzed report: drawing images, findings with
+// review state, calibrations and measurements all travel inside `report`.
+export interface ReportBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  exportedBy?: string;
+  report: AnalysisReport;
+}
+
+export class BundleImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleImportError';
+  }
+}
+
+type RawBundle = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// MIGRATIONS[n] upgrades a version n bundle to version n + 1. Migrations run in order,
+// so a bundle written by any earlier release reaches BUNDLE_VERSION one step at a time.
+const MIGRATIONS: Record<number, (bundle: RawBundle) => RawBundle> = {};
+
+/**
+ * Wraps a report for sharing. Local storage ids (scan history, project, drawing and
+ * revision) mean nothing in another browser and are left out.
+ */
+export const createBundle = (report: AnalysisReport, exportedBy?: string): ReportBundle => {
+  const { id, projectId, drawingId, revisionId, ...portable } = report;
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy: exportedBy || undefined,
+    report: portable
+  };
+};
+
+export const bundleFileName = (report: AnalysisReport) =>
+  `${report.fileName.replace(/\.[^/.]+$/, "")}${report.revisionLabel ? `_${report.revisionLabel}` : ''}.${BUNDLE_EXTENSION}`;
+
+export const isBundleFile = (fileName: string) =>
+  fileName.toLowerCase().endsWith(`.${BUNDLE_EXTENSION}`);
+
+/** Saves the bundle through a temporary download link. */
+export const downloadBundle = (report: AnalysisReport, exportedBy?: string) => {
+  const blob = new Blob([JSON.stringify(createBundle(report, exportedBy))], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = bundleFileName(report);
+  link.click();
+  // Revoking in the same task can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Parses a bundle file, upgrading older versions. Throws BundleImportError when the text
+ * is not a bundle, comes from a newer release, or does not contain a usable report.
+ */
+export const parseBundle = (text: string): ReportBundle => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BundleImportError("The file is not a valid report bundle (it is not JSON).");
+  }
+  if (!isRecord(raw) || raw.format !== BUNDLE_FORMAT) {
+    throw new BundleImportError("The file is not a report bundle.");
+  }
+
+  let bundle = raw;
+  const version = bundle.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new BundleImportError("The report bundle has no valid version number.");
+  }
+  if (version > BUNDLE_VERSION) {
+    throw new BundleImportError(`The report bundle was created by a newer version of the app (format v${version}). Please update and try again.`);
+  }
+  for (let v = version; v < BUNDLE_VERSION; v++) {
+    bundle = { ...MIGRATIONS[v](bundle), version: v + 1 };
+  }
+
+  const report = bundle.report;
+  if (!isRecord(report) || !Array.isArray(report.findings)
+    || typeof report.fileName !== 'string' || typeof report.scanDate !== 'string' || typeof report.overallScore !== 'number') {
+    throw new BundleImportError("The report bundle does not contain a complete report.");
+  }
+  if (!report.imageBase64 && !(Array.isArray(report.sheets) && report.sheets.length > 0)) {
+    throw new BundleImportError("The report bundle does not contain the drawing image.");
+  }
+
+  // Findings get the same repairs as model output; review state and other stored fields ride along
+  const diagnostics: ReportDiagnostic[] = [];
+  const seenIds = new Set<string>();
+  const findings = report.findings.flatMap((item, index) => {
+    const finding = normalizeFinding(item, index, seenIds, diagnostics);
+    return finding ? [{ ...(item as object), ...finding }] : [];
+  });
+  const previousDiagnostics = Array.isArray(report.diagnostics) ? report.diagnostics : [];
+
+  // Local storage ids from the sender's browser would overwrite or link to unrelated local records
+  const { id, projectId, drawingId, revisionId, ...portable } = report;
+  return {
+    ...bundle,
+    report: {
+      ...portable,
+      findings,
+      diagnostics: diagnostics.length > 0
+        ? [...previousDiagnostics, ...diagnostics.map(d => ({ ...d, field: `Import: ${d.field}` }))]
+        : portable.diagnostics
+    }
+  } as unknown as ReportBundle; // Report fields checked above, findings normalized
+};
@@ -0,0 +1,107 @@
+import { AnalysisReport, ComplianceStatus, ReportSummary } from "../types";
+import { STORES, createId, openDatabase, requestToPromise, transactionDone } from "./database";
+import { isReviewClosed } from "./findingReview";
+import { isCriticalIssue } from "./severity";
+import { parseReference } from "./referenceParser";
+
+export const summarizeReport = (report: AnalysisReport & { id: string }): ReportSummary => {
+  const pending = report.findings.filter(f => f.status !== ComplianceStatus.PASS && !isReviewClosed(f));
+  const openFails = pending.filter(f => f.status === ComplianceStatus.FAIL);
+  const openFailsByCategory: Record<string, number> = {};
+  openFails.forEach(f => {
+    const category = f.category || 'General';
+    openFailsByCategory[category] = (openFailsByCategory[category] || 0) + 1;
+  });
+  const citedClauses: Record<string, number> = {};
+  report.findings.forEach(f => {
+    const id = parseReference(f.reference)?.id;
+    if (id) citedClauses[id] = (citedClauses[id] || 0) + 1;
+  });
+
+  return {
+    id: report.id,
+    fileName: report.fileName,
+    scanDate: report.scanDate,
+    overallScore: report.overallScore,
+    findingCount: report.findings.length,
+    failCount: report.findings.filter(f => f.status === ComplianceStatus.FAIL).length,
+    warningCount: report.findings.filter(f => f.status === ComplianceStatus.WARNING).length,
+    passCount: report.findings.filter(f => f.status === ComplianceStatus.PASS).length,
+    openFailCount: openFails.length,
+    pendingReviewCount: pending.length,
+    criticalCount: pending.filter(isCriticalIssue).length,
+    openFailsByCategory,
+    citedClauses,
+    projectId: report.projectId,
+    drawingId: report.drawingId,
+    revisionId: report.revisionId,
+    revisionLabel: report.revisionLabel
+  };
+};
+
+/**
+ * Saves a report to scan history, assigning an id on first save. Saving a report that
+ * already has an id overwrites the stored copy (e.g. after calibration or measurements).
+ */
+export const saveReport = async (report: AnalysisReport): Promise<AnalysisReport> => {
+  const stored = { ...report, id: report.id || createId('r') };
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.reports, STORES.summaries], 'readwrite');
+  tx.objectStore(STORES.reports).put(stored);
+  tx.objectStore(STORES.summaries).put(summarizeReport(stored));
+  await transactionDone(tx);
+  return stored;
+};
+
+/**
+ * Saves edits to stored reports one write at a time. Edits made while a write is in flight
+ * replace each other per report, so only the latest version is written next and an older
+ * write can never land after a newer one. `onSaved` runs once the queue drains without errors.
+ */
+export const createReportSaveQueue = (onSaved: () => void, onError: (error: unknown) => void) => {
+  const pending = new Map<string, AnalysisReport>();
+  let isSaving = false;
+
+  const drain = async () => {
+    isSaving = true;
+    let failed = false;
+    while (pending.size > 0) {
+      const [id, report] = pending.entries().next().value!;
+      pending.delete(id);
+      try {
+        await saveReport(report);
+      } catch (error) {
+        failed = true;
+        onError(error);
+      }
+    }
+    isSaving = false;
+    if (!failed) onSaved();
+  };
+
+  return (report: AnalysisReport & { id: string }) => {
+    pending.set(report.id, report);
+    if (!isSaving) drain();
+  };
+};
+
+export const getReport = async (id: string): Promise<AnalysisReport | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise<AnalysisReport | undefined>(db.transaction(STORES.reports).objectStore(STORES.reports).get(id));
+};
+
+/** All saved reports, newest first. */
+export const listReportSummaries = async (): Promise<ReportSummary[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(STORES.summaries).objectStore(STORES.summaries).index('scanDate');
+  const summaries = await requestToPromise<ReportSummary[]>(index.getAll());
+  return summaries.reverse();
+};
+
+export const deleteReport = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.reports, STORES.summaries], 'readwrite');
+  tx.objectStore(STORES.reports).delete(id);
+  tx.objectStore(STORES.summaries).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { ComplianceStatus, FindingSeverity } from "../types";
+import { ReportValidationError, normalizeBoundingBox, validateAnalysisResult } from "./reportValidator";
+
+const finding = (overrides: Record<string, unknown> = {}) => ({
+  id: 'f1',
+  category: 'Egress',
+  description: 'Exit door swings against egress.',
+  reference: 'SBC 201 - 1010.1.2',
+  status: 'FAIL',
+  recommendation: 'Reverse the door swing.',
+  ...overrides
+});
+
+describe("validateAnalysisResult", () => {
+  it("rejects responses that cannot become a report", () => {
+    expect(() => validateAnalysisResult('text')).toThrow(ReportValidationError);
+    expect(() => validateAnalysisResult({ overallScore: 70 })).toThrow(ReportValidationError);
+    expect(() => validateAnalysisResult({ overallScore: 'high', findings: [] })).toThrow(ReportValidationError);
+  });
+
+  it("passes a clean response through without diagnostics", () => {
+    const { result, diagnostics } = validateAnalysisResult({ overallScore: 72, summary: 'Mostly compliant.', findings: [finding()] });
+    expect(diagnostics).toEqual([]);
+    expect(result.overallScore).toBe(72);
+    expect(result.findings[0]).toMatchObject({ id: 'f1', status: ComplianceStatus.FAIL });
+  });
+
+  it("converts and clamps the score", () => {
+    const { result, diagnostics } = validateAnalysisResult({ overallScore: '140', summary: 's', findings: [] });
+    expect(result.overallScore).toBe(100);
+    expect(diagnostics.map(d => d.field)).toEqual(['overallScore', 'overallScore']);
+  });
+
+  it("maps status and severity aliases", () => {
+    const { result } = validateAnalysisResult({
+      overallScore: 50,
+      summary: 's',
+      findings: [finding({ status: 'non-compliant', severity: 'high' }), finding({ id: 'f2', status: 'maybe' })]
+    });
+    expect(result.findings[0].status).toBe(ComplianceStatus.FAIL);
+    expect(result.findings[0].severity).toBe(FindingSeverity.MAJOR);
+    expect(result.findings[1].status).toBe(ComplianceStatus.NEEDS_CLARIFICATION);
+  });
+
+  it("drops findings without a description and fills other gaps", () => {
+    const { result, diagnostics } = validateAnalysisResult({
+      overallScore: 50,
+      summary: 's',
+      findings: [finding({ description: ' ' }), { description: 'Stair handrail missing.', status: 'WARNING' }, 7]
+    });
+    expect(result.findings).toHaveLength(1);
+    expect(result.findings[0]).toMatchObject({ id: 'f-2', category: 'General', reference: 'N/A', recommendation: '' });
+    expect(diagnostics.some(d => d.message.includes('no description'))).toBe(true);
+    expect(diagnostics.some(d => d.message.includes('not an object'))).toBe(true);
+  });
+
+  it("renames duplicate finding ids", () => {
+    const { result } = validateAnalysisResult({ overallScore: 50, summary: 's', findings: [finding(), finding(), finding()] });
+    expect(result.findings.map(f => f.id)).toEqual(['f1', 'f1-2', 'f1-3']);
+  });
+
+  it("keeps valid plan elements and renames repeated element ids", () => {
+    const { result } = validateAnalysisResult({
+      overallScore: 50,
+      summary: 's',
+      findings: [],
+      planData: {
+        corridors: [
+          { id: 'C1', width: 1200, length: 10 },
+          { id: 'C1', width: 1100, length: 6 },
+          { id: 'C2', width: -1, length: 6 }
+        ],
+        occupantLoad: 30
+      }
+    });
+    expect(result.planData?.corridors.map(c => c.id)).toEqual(['C1', 'C1-2']);
+    expect(result.planData?.occupantLoad).toBe(30);
+  });
+});
+
+describe("normalizeBoundingBox", () => {
+  const normalize = (box: unknown) => normalizeBoundingBox(box, () => {});
+
+  it("leaves a valid box alone", () => {
+    expect(normalize([0.1, 0.2, 0.5, 0.6])).toEqual([0.1, 0.2, 0.5, 0.6]);
+  });
+
+  it("rescales 0-1000 coordinates", () => {
+    expect(normalize([100, 200, 500, 600])).toEqual([0.1, 0.2, 0.5, 0.6]);
+  });
+
+  it("clamps a slight overshoot instead of rescaling", () => {
+    expect(normalize([0.1, 0.2, 0.5, 1.02])).toEqual([0.1, 0.2, 0.5, 1]);
+  });
+
+  it("reorders inverted corners", () => {
+    expect(normalize([0.5, 0.6, 0.1, 0.2])).toEqual([0.1, 0.2, 0.5, 0.6]);
+  });
+
+  it("removes malformed and zero-area boxes", () => {
+    expect(normalize([0.1, 0.2, 0.5])).toBeUndefined();
+    expect(normalize(['a', 0, 1, 1])).toBeUndefined();
+    expect(normalize([0.3, 0.2, 0.3, 0.6])).toBeUndefined();
+  });
+});
@@ -0,0 +1,299 @@
+import { ComplianceFinding, ComplianceStatus, FindingSeverity, MeasuredValue, PlanData, ReportDiagnostic } from "../types";
+import { AnalysisResult } from "./analysisProvider";
+
+export class ReportValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportValidationError';
+  }
+}
+
+export interface ValidatedAnalysis {
+  result: AnalysisResult;
+  diagnostics: ReportDiagnostic[];
+}
+
+// Model status spellings we have seen in the wild, mapped onto ComplianceStatus
+const STATUS_ALIASES: Record<string, ComplianceStatus> = {
+  PASS: ComplianceStatus.PASS,
+  PASSED: ComplianceStatus.PASS,
+  OK: ComplianceStatus.PASS,
+  COMPLIANT: ComplianceStatus.PASS,
+  FAIL: ComplianceStatus.FAIL,
+  FAILED: ComplianceStatus.FAIL,
+  NON_COMPLIANT: ComplianceStatus.FAIL,
+  NONCOMPLIANT: ComplianceStatus.FAIL,
+  CRITICAL: ComplianceStatus.FAIL,
+  WARNING: ComplianceStatus.WARNING,
+  WARN: ComplianceStatus.WARNING,
+  CAUTION: ComplianceStatus.WARNING,
+  NEEDS_CLARIFICATION: ComplianceStatus.NEEDS_CLARIFICATION,
+  UNCLEAR: ComplianceStatus.NEEDS_CLARIFICATION,
+  INFO: ComplianceStatus.NEEDS_CLARIFICATION
+};
+
+const SEVERITY_ALIASES: Record<string, FindingSeverity> = {
+  CRITICAL: FindingSeverity.CRITICAL,
+  HIGH: FindingSeverity.MAJOR,
+  MAJOR: FindingSeverity.MAJOR,
+  MEDIUM: FindingSeverity.MINOR,
+  MODERATE: FindingSeverity.MINOR,
+  MINOR: FindingSeverity.MINOR,
+  LOW: FindingSeverity.MINOR,
+  INFO: FindingSeverity.INFO,
+  INFORMATIONAL: FindingSeverity.INFO,
+  NONE: FindingSeverity.INFO
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Slight overshoot past 1 (e.g. 1.02) is rounding on the 0-1 scale and gets clamped instead
+const PER_MILLE_THRESHOLD = 1.5;
+
+const isPerMilleBox = (values: number[]) =>
+  values.every(v => v >= 0 && v <= 1000) &&
+  (Math.max(...values) > PER_MILLE_THRESHOLD || values.filter(v => v > 1).length > values.length / 2);
+
+/**
+ * Repairs a [ymin, xmin, ymax, xmax] box: rescales 0-1000 coordinates, clamps to 0-1
+ * and reorders inverted corners. Returns undefined when the box is unusable.
+ */
+export const normalizeBoundingBox = (
+  box: unknown,
+  report: (message: string) => void
+): number[] | undefined => {
+  if (box === undefined || box === null) return undefined;
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(isFiniteNumber)) {
+    report(`Removed malformed bounding box ${JSON.stringify(box)}.`);
+    return undefined;
+  }
+
+  let values = box as number[];
+  if (isPerMilleBox(values)) {
+    values = values.map(v => v / 1000);
+    report('Rescaled bounding box from 0-1000 to 0-1 coordinates.');
+  }
+
+  const clamped = values.map(clamp01);
+  if (clamped.some((v, i) => v !== values[i])) {
+    report('Clamped bounding box coordinates to the 0-1 range.');
+  }
+
+  let [ymin, xmin, ymax, xmax] = clamped;
+  if (ymin > ymax || xmin > xmax) {
+    [ymin, ymax] = [Math.min(ymin, ymax), Math.max(ymin, ymax)];
+    [xmin, xmax] = [Math.min(xmin, xmax), Math.max(xmin, xmax)];
+    report('Reordered inverted bounding box corners.');
+  }
+
+  if (ymax - ymin <= 0 || xmax - xmin <= 0) {
+    report('Removed zero-area bounding box.');
+    return undefined;
+  }
+  return [ymin, xmin, ymax, xmax];
+};
+
+const normalizeStatus = (value: unknown, report: (message: string) => void): ComplianceStatus => {
+  const key = typeof value === 'string' ? value.trim().toUpperCase().replace(/[\s-]+/g, '_') : '';
+  const status = STATUS_ALIASES[key];
+  if (status === undefined) {
+    report(`Unknown status ${JSON.stringify(value)} mapped to ${ComplianceStatus.NEEDS_CLARIFICATION}.`);
+    return ComplianceStatus.NEEDS_CLARIFICATION;
+  }
+  if (status !== value) report(`Status "${value}" mapped to ${status}.`);
+  return status;
+};
+
+// Missing severities are left for severityOf to derive from the status
+const normalizeSeverity = (value: unknown, report: (message: string) => void): FindingSeverity | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const key = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  const severity = SEVERITY_ALIASES[key];
+  if (severity === undefined) {
+    report(`Removed unknown severity ${JSON.stringify(value)}.`);
+    return undefined;
+  }
+  if (severity !== value) report(`Severity "${value}" mapped to ${severity}.`);
+  return severity;
+};
+
+const normalizeMeasurement = (value: unknown, report: (message: string) => void): MeasuredValue | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value) || !optionalString(value.label) || !isFiniteNumber(value.value) || !optionalString(value.unit)) {
+    report('Discarded measurement without a label, numeric value and unit.');
+    return undefined;
+  }
+  const limit = isFiniteNumber(value.limit) ? value.limit : undefined;
+  return {
+    label: optionalString(value.label)!,
+    value: value.value,
+    unit: optionalString(value.unit)!,
+    limit,
+    limitType: limit === undefined ? undefined : value.limitType === 'min' ? 'min' : 'max'
+  };
+};
+
+// Keeps only plan elements with an id and finite measurements; the rule engine trusts these values
+const normalizePlanData = (raw: unknown, diagnostics: ReportDiagnostic[]): PlanData | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isRecord(raw)) {
+    diagnostics.push({ field: 'planData', message: 'Discarded plan data that was not an object.' });
+    return undefined;
+  }
+
+  const isMeasurement = (value: unknown) => isFiniteNumber(value) && value >= 0;
+
+  const list = <T,>(key: keyof Omit<PlanData, 'occupantLoad'>, required: string[], optional: string[] = []): T[] => {
+    const items = Array.isArray(raw[key]) ? raw[key] as unknown[] : [];
+    const valid = items.filter((item): item is Record<string, unknown> =>
+      isRecord(item) &&
+      typeof item.id === 'string' &&
+      required.every(f => isMeasurement(item[f])) &&
+      optional.every(f => item[f] === undefined || isMeasurement(item[f]))
+    );
+    if (valid.length !== items.length) {
+      diagnostics.push({ field: `planData.${key}`, message: `Discarded ${items.length - valid.length} ${key} entries with missing ids or invalid measurements.` });
+    }
+    // Rule findings are keyed by element id, so a repeated id gets a suffix
+    const seen = new Set<string>();
+    return valid.map(item => {
+      let id = item.id as string;
+      for (let n = 2; seen.has(id); n++) id = `${item.id}-${n}`;
+      if (id !== item.id) {
+        diagnostics.push({ field: `planData.${key}`, message: `Renamed duplicate id ${item.id} to ${id}.` });
+      }
+      seen.add(id);
+      const boundingBox = normalizeBoundingBox(item.boundingBox, message =>
+        diagnostics.push({ field: `planData.${key}.boundingBox`, message: `${id}: ${message}` })
+      );
+      return { ...item, id, boundingBox } as T;
+    });
+  };
+
+  return {
+    rooms: list('rooms', ['area']),
+    doors: list('doors', ['clearWidth']),
+    corridors: list('corridors', ['width', 'length'], ['deadEndLength']),
+    exits: list('exits', ['width'], ['travelDistance']),
+    occupantLoad: isFiniteNumber(raw.occupantLoad) && raw.occupantLoad >= 0 ? raw.occupantLoad : undefined
+  };
+};
+
+/**
+ * Repairs one finding the way model output is repaired: a finding without a description is
+ * discarded (returns undefined); other gaps get safe defaults and a diagnostic. `seenIds`
+ * is shared across a findings list so duplicate ids are renamed.
+ */
+export const normalizeFinding = (
+  item: unknown,
+  index: number,
+  seenIds: Set<string>,
+  diagnostics: ReportDiagnostic[]
+): ComplianceFinding | undefined => {
+  if (!isRecord(item)) {
+    diagnostics.push({ field: 'findings', message: `Discarded finding #${index + 1}: not an object.` });
+    return undefined;
+  }
+
+  const description = optionalString(item.description);
+  if (!description) {
+    diagnostics.push({ field: 'findings', message: `Discarded finding #${index + 1}: no description.` });
+    return undefined;
+  }
+
+  let id = optionalString(item.id) || `f-${index + 1}`;
+  if (!optionalString(item.id)) {
+    diagnostics.push({ findingId: id, field: 'id', message: 'Missing id; generated one.' });
+  }
+  if (seenIds.has(id)) {
+    let n = 2;
+    while (seenIds.has(`${id}-${n}`)) n++;
+    diagnostics.push({ findingId: `${id}-${n}`, field: 'id', message: `Duplicate id "${id}" renamed to "${id}-${n}".` });
+    id = `${id}-${n}`;
+  }
+  seenIds.add(id);
+
+  const note = (field: string) => (message: string) => diagnostics.push({ findingId: id, field, message });
+
+  const category = optionalString(item.category);
+  if (!category) note('category')('Missing category; set to "General".');
+
+  const reference = optionalString(item.reference);
+  if (!reference) note('reference')('Missing SBC reference.');
+
+  const recommendation = optionalString(item.recommendation);
+  if (!recommendation) note('recommendation')('Missing recommendation.');
+
+  return {
+    id,
+    category: category || 'General',
+    description,
+    reference: reference || 'N/A',
+    status: normalizeStatus(item.status, note('status')),
+    severity: normalizeSeverity(item.severity, note('severity')),
+    lifeSafety: typeof item.lifeSafety === 'boolean' ? item.lifeSafety : undefined,
+    recommendation: recommendation || '',
+    location: optionalString(item.location),
+    boundingBox: normalizeBoundingBox(item.boundingBox, note('boundingBox')),
+    measurement: normalizeMeasurement(item.measurement, note('measurement'))
+  };
+};
+
+/**
+ * Checks raw model output against the AnalysisResult shape, repairing what can be
+ * repaired and recording every correction. Throws ReportValidationError when the
+ * response is unusable (not an object, no findings list, or no numeric score).
+ */
+export const validateAnalysisResult = (raw: unknown): ValidatedAnalysis => {
+  if (!isRecord(raw)) {
+    throw new ReportValidationError("Model response is not a JSON object.");
+  }
+  if (!Array.isArray(raw.findings)) {
+    throw new ReportValidationError("Model response does not contain a findings list.");
+  }
+
+  const diagnostics: ReportDiagnostic[] = [];
+
+  const rawScore = typeof raw.overallScore === 'string' ? parseFloat(raw.overallScore) : raw.overallScore;
+  if (!isFiniteNumber(rawScore)) {
+    throw new ReportValidationError("Model response does not contain a numeric compliance score.");
+  }
+  let overallScore = rawScore;
+  if (overallScore !== raw.overallScore) {
+    diagnostics.push({ field: 'overallScore', message: `Converted score "${raw.overallScore}" to a number.` });
+  }
+  if (overallScore < 0 || overallScore > 100) {
+    diagnostics.push({ field: 'overallScore', message: `Clamped score ${overallScore} to the 0-100 range.` });
+    overallScore = Math.min(100, Math.max(0, overallScore));
+  }
+
+  let summary = optionalString(raw.summary);
+  if (!summary) {
+    diagnostics.push({ field: 'summary', message: 'Summary was missing.' });
+    summary = '';
+  }
+
+  const seenIds = new Set<string>();
+  const findings = raw.findings
+    .map((item, index) => normalizeFinding(item, index, seenIds, diagnostics))
+    .filter((finding): finding is ComplianceFinding => finding !== undefined);
+
+  return {
+    result: {
+      overallScore: Math.round(overallScore),
+      summary,
+      findings,
+      planData: normalizePlanData(raw.planData, diagnostics)
+    },
+    diagnostics
+  };
+};
@@ -0,0 +1,115 @@
+import { AnalysisReport, ComplianceFinding, ComplianceStatus } from "../types";
+import { boxIoU } from "./tiling";
+
+export enum FindingChange {
+  RESOLVED = 'RESOLVED', // Open in the base revision, gone (or passing) in the target
+  NEW = 'NEW', // Open in the target revision only
+  PERSISTING = 'PERSISTING' // Open in both
+}
+
+export interface FindingDiffEntry {
+  change: FindingChange;
+  previous?: ComplianceFinding; // Set for RESOLVED and PERSISTING
+  current?: ComplianceFinding; // Set for NEW and PERSISTING
+  statusChanged?: boolean; // PERSISTING only, e.g. FAIL → WARNING
+}
+
+export interface RevisionDiff {
+  entries: FindingDiffEntry[];
+  scoreDelta: number;
+  counts: Record<FindingChange, number>;
+  // Target minus base, per status; negative numbers are improvements for FAIL and WARNING
+  statusDeltas: Record<ComplianceStatus, number>;
+}
+
+// Boxes drift between revisions as the plan is edited, so the bar is lower than for tile duplicates
+export const DIFF_IOU_THRESHOLD = 0.2;
+
+const normalizeReference = (reference: string) => reference.toLowerCase().replace(/[^a-z0-9.]/g, '');
+
+const isOpen = (finding: ComplianceFinding) => finding.status !== ComplianceStatus.PASS;
+
+/**
+ * How well two findings describe the same issue, or null when they cannot be the same.
+ * They must sit on the same sheet and share a reference or category; when both have boxes
+ * the boxes must overlap, otherwise the reference has to match exactly.
+ */
+const matchScore = (a: ComplianceFinding, b: ComplianceFinding): number | null => {
+  if ((a.sheetIndex ?? 0) !== (b.sheetIndex ?? 0)) return null;
+  const sameReference = a.reference !== 'N/A' && normalizeReference(a.reference) === normalizeReference(b.reference);
+  const sameCategory = (a.category || 'General') === (b.category || 'General');
+  if (!sameReference && !sameCategory) return null;
+
+  if (a.boundingBox && b.boundingBox) {
+    const iou = boxIoU(a.boundingBox, b.boundingBox);
+    if (iou < DIFF_IOU_THRESHOLD) return null;
+    return (sameReference ? 2 : 0) + (sameCategory ? 1 : 0) + iou;
+  }
+  return sameReference ? 2 + (sameCategory ? 1 : 0) : null;
+};
+
+const countByStatus = (findings: ComplianceFinding[]) => {
+  const counts = {
+    [ComplianceStatus.PASS]: 0,
+    [ComplianceStatus.FAIL]: 0,
+    [ComplianceStatus.WARNING]: 0,
+    [ComplianceStatus.NEEDS_CLARIFICATION]: 0
+  };
+  findings.forEach(f => counts[f.status]++);
+  return counts;
+};
+
+/**
+ * Compares the open findings (anything but PASS) of two revisions of a drawing.
+ * Pairs are matched greedily, best score first, so each finding is used at most once.
+ */
+export const diffReports = (base: AnalysisReport, target: AnalysisReport): RevisionDiff => {
+  const previous = base.findings.filter(isOpen);
+  const current = target.findings.filter(isOpen);
+
+  const candidates: { i: number; j: number; score: number }[] = [];
+  previous.forEach((p, i) => current.forEach((c, j) => {
+    const score = matchScore(p, c);
+    if (score !== null) candidates.push({ i, j, score });
+  }));
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matchedPrevious = new Map<number, number>();
+  const matchedCurrent = new Set<number>();
+  candidates.forEach(({ i, j }) => {
+    if (matchedPrevious.has(i) || matchedCurrent.has(j)) return;
+    matchedPrevious.set(i, j);
+    matchedCurrent.add(j);
+  });
+
+  const entries: FindingDiffEntry[] = [
+    ...previous.map((p, i): FindingDiffEntry => {
+      const j = matchedPrevious.get(i);
+      if (j === undefined) return { change: FindingChange.RESOLVED, previous: p };
+      return { change: FindingChange.PERSISTING, previous: p, current: current[j], statusChanged: p.status !== current[j].status };
+    }),
+    ...current
+      .filter((_, j) => !matchedCurrent.has(j))
+      .map((c): FindingDiffEntry => ({ change: FindingChange.NEW, current: c }))
+  ];
+
+  const baseCounts = countByStatus(base.findings);
+  const targetCounts = countByStatus(target.findings);
+  const count = (change: FindingChange) => entries.filter(e => e.change === change).length;
+
+  return {
+    entries,
+    scoreDelta: target.overallScore - base.overallScore,
+    counts: {
+      [FindingChange.RESOLVED]: count(FindingChange.RESOLVED),
+      [FindingChange.NEW]: count(FindingChange.NEW),
+      [FindingChange.PERSISTING]: count(FindingChange.PERSISTING)
+    },
+    statusDeltas: {
+      [ComplianceStatus.PASS]: targetCounts[ComplianceStatus.PASS] - baseCounts[ComplianceStatus.PASS],
+      [ComplianceStatus.FAIL]: targetCounts[ComplianceStatus.FAIL] - baseCounts[ComplianceStatus.FAIL],
+      [ComplianceStatus.WARNING]: targetCounts[ComplianceStatus.WARNING] - baseCounts[ComplianceStatus.WARNING],
+      [ComplianceStatus.NEEDS_CLARIFICATION]: targetCounts[ComplianceStatus.NEEDS_CLARIFICATION] - baseCounts[ComplianceStatus.NEEDS_CLARIFICATION]
+    }
+  };
+};
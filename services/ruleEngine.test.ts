@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { ComplianceStatus, FindingSeverity, OccupancyGroup, PlanData } from "../types";
+import { runRuleEngine } from "./ruleEngine";
+
+const emptyPlan = (): PlanData => ({ rooms: [], doors: [], corridors: [], exits: [] });
+
+const findingFor = (plan: PlanData, ruleId: string, building?: Parameters<typeof runRuleEngine>[1]) =>
+  runRuleEngine(plan, building).filter(f => f.ruleId === ruleId);
+
+describe("runRuleEngine", () => {
+  it("is deterministic and derives finding ids from rule and element", () => {
+    const plan = { ...emptyPlan(), doors: [{ id: 'D1', clearWidth: 850 }] };
+    const first = runRuleEngine(plan);
+    expect(runRuleEngine(plan)).toEqual(first);
+    expect(first.map(f => f.id)).toEqual(['rule-EGRESS-DOOR-WIDTH-D1']);
+  });
+
+  it("gives failing results the rule severity and passing ones INFO", () => {
+    const plan = { ...emptyPlan(), doors: [{ id: 'D1', clearWidth: 850 }, { id: 'D2', clearWidth: 900 }] };
+    const [fail, pass] = findingFor(plan, 'EGRESS-DOOR-WIDTH');
+    expect(fail.status).toBe(ComplianceStatus.FAIL);
+    expect(fail.severity).toBe(FindingSeverity.MAJOR);
+    expect(pass.status).toBe(ComplianceStatus.PASS);
+    expect(pass.severity).toBe(FindingSeverity.INFO);
+  });
+
+  describe("corridor width", () => {
+    const plan = (occupantLoad?: number): PlanData => ({ ...emptyPlan(), occupantLoad, corridors: [{ id: 'C1', width: 1000, length: 8 }] });
+
+    it("requires 1120mm by default", () => {
+      const [finding] = findingFor(plan(), 'EGRESS-CORRIDOR-WIDTH');
+      expect(finding.status).toBe(ComplianceStatus.FAIL);
+      expect(finding.measurement?.limit).toBe(1120);
+    });
+
+    it("allows 900mm for an occupant load under 50", () => {
+      const [finding] = findingFor(plan(12), 'EGRESS-CORRIDOR-WIDTH');
+      expect(finding.status).toBe(ComplianceStatus.PASS);
+      expect(finding.measurement?.limit).toBe(900);
+    });
+
+    it("requires 1120mm from an occupant load of 50", () => {
+      expect(findingFor(plan(50), 'EGRESS-CORRIDOR-WIDTH')[0].status).toBe(ComplianceStatus.FAIL);
+    });
+  });
+
+  describe("exit count", () => {
+    it("fails when fewer exits than the occupant load needs were found", () => {
+      const plan = { ...emptyPlan(), occupantLoad: 120, exits: [{ id: 'E1', width: 1200 }] };
+      const [finding] = findingFor(plan, 'EGRESS-EXIT-COUNT');
+      expect(finding.status).toBe(ComplianceStatus.FAIL);
+      expect(finding.description).toContain('minimum 2');
+    });
+
+    it("says nothing when no exits were extracted", () => {
+      expect(findingFor({ ...emptyPlan(), occupantLoad: 120 }, 'EGRESS-EXIT-COUNT')).toEqual([]);
+    });
+
+    it("says nothing without an occupant load", () => {
+      expect(findingFor({ ...emptyPlan(), exits: [{ id: 'E1', width: 1200 }] }, 'EGRESS-EXIT-COUNT')).toEqual([]);
+    });
+  });
+
+  describe("building-dependent limits", () => {
+    const plan: PlanData = {
+      ...emptyPlan(),
+      corridors: [{ id: 'C1', width: 1200, length: 20, deadEndLength: 10 }],
+      exits: [{ id: 'E1', width: 1200, travelDistance: 40 }]
+    };
+    const limitOf = (ruleId: string, building?: Parameters<typeof runRuleEngine>[1]) =>
+      findingFor(plan, ruleId, building)[0].measurement?.limit;
+
+    it("uses the unsprinklered limits without building information", () => {
+      expect(limitOf('EGRESS-DEAD-END')).toBe(6);
+      expect(limitOf('EGRESS-TRAVEL-DISTANCE')).toBe(60);
+    });
+
+    it("relaxes the limits for a sprinklered business building", () => {
+      const building = { occupancyGroup: OccupancyGroup.BUSINESS, sprinklered: true };
+      expect(limitOf('EGRESS-DEAD-END', building)).toBe(15);
+      expect(limitOf('EGRESS-TRAVEL-DISTANCE', building)).toBe(90);
+    });
+
+    it("keeps the strict limits when sprinklers are not confirmed", () => {
+      const building = { occupancyGroup: OccupancyGroup.BUSINESS };
+      expect(limitOf('EGRESS-DEAD-END', building)).toBe(6);
+      expect(limitOf('EGRESS-TRAVEL-DISTANCE', building)).toBe(60);
+    });
+
+    it("applies the strictest high-hazard limit when the sub-group is unknown", () => {
+      const building = { occupancyGroup: OccupancyGroup.HIGH_HAZARD, sprinklered: true };
+      expect(limitOf('EGRESS-TRAVEL-DISTANCE', building)).toBe(23);
+      expect(findingFor(plan, 'EGRESS-TRAVEL-DISTANCE', building)[0].status).toBe(ComplianceStatus.FAIL);
+    });
+
+    it("applies the high-hazard sub-group limit", () => {
+      const building = { occupancyGroup: OccupancyGroup.HIGH_HAZARD, occupancySubgroup: 3, sprinklered: true };
+      expect(limitOf('EGRESS-TRAVEL-DISTANCE', building)).toBe(45);
+    });
+
+    it("distinguishes institutional sub-groups", () => {
+      expect(limitOf('EGRESS-TRAVEL-DISTANCE', { occupancyGroup: OccupancyGroup.INSTITUTIONAL, sprinklered: true })).toBe(60);
+      expect(limitOf('EGRESS-TRAVEL-DISTANCE', { occupancyGroup: OccupancyGroup.INSTITUTIONAL, occupancySubgroup: 1, sprinklered: true })).toBe(75);
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { BuildingMetadata, ComplianceFinding, ComplianceStatus, FindingSeverity, FindingSource, MeasuredValue, OccupancyGroup, PlanData } from "../types";
+
+/**
+ * A deterministic SBC check. `evaluate` must be a pure function of the plan and building
+ * information: the same inputs always yield the same results, in the same order.
+ */
+export interface ComplianceRule {
+  id: string;
+  title: string;
+  category: string;
+  reference: string; // Exact SBC clause reference stamped on every finding
+  severity: FindingSeverity; // Severity of a failing result; passing results are INFO
+  lifeSafety: boolean;
+  evaluate: (plan: PlanData, building?: BuildingMetadata) => RuleResult[];
+}
+
+export interface RuleResult {
+  elementId: string;
+  status: ComplianceStatus;
+  description: string;
+  recommendation: string;
+  boundingBox?: number[];
+  measurement?: MeasuredValue;
+}
+
+const DEAD_END_LIMIT_M = 6.0;
+const SPRINKLERED_DEAD_END_LIMIT_M = 15.0;
+const MIN_DOOR_CLEAR_WIDTH_MM = 900;
+const MIN_CORRIDOR_WIDTH_MM = 1120;
+const SMALL_LOAD_CORRIDOR_WIDTH_MM = 900; // Occupant load under 50
+const SMALL_CORRIDOR_LOAD = 50;
+const MAX_TRAVEL_DISTANCE_M = 60; // Unsprinklered; see travelDistanceLimit
+const MIN_HABITABLE_ROOM_AREA_M2 = 6.5;
+
+const formatM = (value: number) => `${value.toFixed(1)}m`;
+const formatMm = (value: number) => `${Math.round(value)}mm`;
+
+// Occupancies whose dead ends may be longer when the building is sprinklered
+const LONG_DEAD_END_GROUPS = [
+  OccupancyGroup.BUSINESS, OccupancyGroup.EDUCATIONAL, OccupancyGroup.FACTORY, OccupancyGroup.MERCANTILE,
+  OccupancyGroup.RESIDENTIAL, OccupancyGroup.STORAGE, OccupancyGroup.UTILITY
+];
+
+// Without an occupancy group or sprinkler status the stricter limits apply
+const deadEndLimit = (building?: BuildingMetadata) =>
+  building?.sprinklered && building.occupancyGroup && LONG_DEAD_END_GROUPS.includes(building.occupancyGroup)
+    ? SPRINKLERED_DEAD_END_LIMIT_M
+    : DEAD_END_LIMIT_M;
+
+// High-hazard limits by sub-group (H-1 to H-5); H must be sprinklered, so they apply regardless
+const HIGH_HAZARD_TRAVEL_DISTANCE_M: Record<number, number> = { 1: 23, 2: 30, 3: 45, 4: 53, 5: 60 };
+// Sprinklered institutional limits: I-1 residential care allows 75m, I-2 to I-4 stay at 60m
+const INSTITUTIONAL_TRAVEL_DISTANCE_M: Record<number, number> = { 1: 75, 2: 60, 3: 60, 4: 60 };
+
+// An unknown sub-group takes the strictest limit of its group
+const subgroupLimit = (limits: Record<number, number>, subgroup?: number) =>
+  (subgroup !== undefined && limits[subgroup]) || Math.min(...Object.values(limits));
+
+const travelDistanceLimit = (building?: BuildingMetadata) => {
+  if (building?.occupancyGroup === OccupancyGroup.HIGH_HAZARD) {
+    return subgroupLimit(HIGH_HAZARD_TRAVEL_DISTANCE_M, building.occupancySubgroup);
+  }
+  if (!building?.sprinklered || !building.occupancyGroup) return MAX_TRAVEL_DISTANCE_M;
+  switch (building.occupancyGroup) {
+    case OccupancyGroup.BUSINESS: return 90;
+    case OccupancyGroup.UTILITY: return 120;
+    case OccupancyGroup.INSTITUTIONAL: return subgroupLimit(INSTITUTIONAL_TRAVEL_DISTANCE_M, building.occupancySubgroup);
+    default: return 75;
+  }
+};
+
+const sprinklerNote = (building?: BuildingMetadata) => building?.sprinklered ? ', sprinklered building' : '';
+
+// Without an occupant load the general minimum applies
+const corridorWidthLimit = (occupantLoad?: number) =>
+  occupantLoad !== undefined && occupantLoad < SMALL_CORRIDOR_LOAD ? SMALL_LOAD_CORRIDOR_WIDTH_MM : MIN_CORRIDOR_WIDTH_MM;
+
+// Minimum number of exits by occupant load
+const requiredExits = (occupantLoad: number) => {
+  if (occupantLoad > 1000) return 4;
+  if (occupantLoad > 500) return 3;
+  if (occupantLoad > 49) return 2;
+  return 1;
+};
+
+export const SBC_RULES: ComplianceRule[] = [
+  {
+    id: 'EGRESS-DEAD-END',
+    title: 'Dead-end corridor length',
+    category: 'Egress',
+    reference: 'SBC 201 - 1020.4',
+    severity: FindingSeverity.MAJOR,
+    lifeSafety: true,
+    evaluate: (plan, building) => plan.corridors
+      .filter(c => c.deadEndLength !== undefined)
+      .map(c => {
+        const length = c.deadEndLength!;
+        const limit = deadEndLimit(building);
+        const pass = length <= limit;
+        return {
+          elementId: c.id,
+          status: pass ? ComplianceStatus.PASS : ComplianceStatus.FAIL,
+          description: `Dead-end corridor ${c.id} is ${formatM(length)} long (limit ${formatM(limit)}${sprinklerNote(building)}).`,
+          recommendation: pass
+            ? 'No action required.'
+            : `Shorten the dead end to ${formatM(limit)} or less, or extend the corridor to connect to a second exit path.`,
+          boundingBox: c.boundingBox,
+          measurement: { label: 'Dead-end corridor', value: length, unit: 'm', limit, limitType: 'max' }
+        };
+      })
+  },
+  {
+    id: 'EGRESS-CORRIDOR-WIDTH',
+    title: 'Minimum corridor width',
+    category: 'Egress',
+    reference: 'SBC 201 - 1020.2',
+    severity: FindingSeverity.MAJOR,
+    lifeSafety: true,
+    evaluate: (plan) => plan.corridors.map(c => {
+      const limit = corridorWidthLimit(plan.occupantLoad);
+      const pass = c.width >= limit;
+      const loadNote = limit === SMALL_LOAD_CORRIDOR_WIDTH_MM ? `, occupant load under ${SMALL_CORRIDOR_LOAD}` : '';
+      return {
+        elementId: c.id,
+        status: pass ? ComplianceStatus.PASS : ComplianceStatus.FAIL,
+        description: `Corridor ${c.id} is ${formatMm(c.width)} wide (minimum ${formatMm(limit)}${loadNote}).`,
+        recommendation: pass
+          ? 'No action required.'
+          : `Widen the corridor to at least ${formatMm(limit)} clear.`,
+        boundingBox: c.boundingBox,
+        measurement: { label: 'Corridor width', value: c.width, unit: 'mm', limit, limitType: 'min' }
+      };
+    })
+  },
+  {
+    id: 'EGRESS-DOOR-WIDTH',
+    title: 'Minimum door clear width',
+    category: 'Dimensions',
+    reference: 'SBC 201 - 1010.1.1',
+    severity: FindingSeverity.MAJOR,
+    lifeSafety: true,
+    evaluate: (plan) => plan.doors.map(d => {
+      const pass = d.clearWidth >= MIN_DOOR_CLEAR_WIDTH_MM;
+      return {
+        elementId: d.id,
+        status: pass ? ComplianceStatus.PASS : ComplianceStatus.FAIL,
+        description: `${d.isExitDoor ? 'Exit door' : 'Door'} ${d.id} has a clear width of ${formatMm(d.clearWidth)} (minimum ${formatMm(MIN_DOOR_CLEAR_WIDTH_MM)}).`,
+        recommendation: pass
+          ? 'No action required.'
+          : `Increase the clear opening to at least ${formatMm(MIN_DOOR_CLEAR_WIDTH_MM)}.`,
+        boundingBox: d.boundingBox,
+        measurement: { label: 'Door clear width', value: d.clearWidth, unit: 'mm', limit: MIN_DOOR_CLEAR_WIDTH_MM, limitType: 'min' }
+      };
+    })
+  },
+  {
+    id: 'EGRESS-EXIT-COUNT',
+    title: 'Number of exits',
+    category: 'Fire Safety',
+    reference: 'SBC 201 - 1006.3.2',
+    severity: FindingSeverity.CRITICAL,
+    lifeSafety: true,
+    evaluate: (plan) => {
+      // No extracted exits means extraction missed them, not that the floor has none
+      if (plan.occupantLoad === undefined || plan.exits.length === 0) return [];
+      const required = requiredExits(plan.occupantLoad);
+      const pass = plan.exits.length >= required;
+      return [{
+        elementId: 'plan',
+        status: pass ? ComplianceStatus.PASS : ComplianceStatus.FAIL,
+        description: `${plan.exits.length} exit(s) provided for an occupant load of ${plan.occupantLoad} (minimum ${required}).`,
+        recommendation: pass
+          ? 'No action required.'
+          : `Provide at least ${required - plan.exits.length} additional exit(s).`
+      }];
+    }
+  },
+  {
+    id: 'EGRESS-TRAVEL-DISTANCE',
+    title: 'Exit access travel distance',
+    category: 'Fire Safety',
+    reference: 'SBC 201 - 1017.2',
+    severity: FindingSeverity.CRITICAL,
+    lifeSafety: true,
+    evaluate: (plan, building) => plan.exits
+      .filter(e => e.travelDistance !== undefined)
+      .map(e => {
+        const distance = e.travelDistance!;
+        const limit = travelDistanceLimit(building);
+        const pass = distance <= limit;
+        return {
+          elementId: e.id,
+          status: pass ? ComplianceStatus.PASS : ComplianceStatus.FAIL,
+          description: `Travel distance to exit ${e.id} is ${formatM(distance)} (limit ${formatM(limit)}${sprinklerNote(building)}).`,
+          recommendation: pass
+            ? 'No action required.'
+            : 'Add an exit closer to the most remote point or reroute the exit access path.',
+          boundingBox: e.boundingBox,
+          measurement: { label: 'Travel distance', value: distance, unit: 'm', limit, limitType: 'max' }
+        };
+      })
+  },
+  {
+    id: 'SPACE-HABITABLE-AREA',
+    title: 'Minimum habitable room area',
+    category: 'Dimensions',
+    reference: 'SBC 201 - 1208.3',
+    severity: FindingSeverity.MINOR,
+    lifeSafety: false,
+    evaluate: (plan) => plan.rooms
+      .filter(r => r.isHabitable)
+      .map(r => {
+        const pass = r.area >= MIN_HABITABLE_ROOM_AREA_M2;
+        return {
+          elementId: r.id,
+          status: pass ? ComplianceStatus.PASS : ComplianceStatus.FAIL,
+          description: `Habitable room "${r.name}" is ${r.area.toFixed(1)}m² (minimum ${MIN_HABITABLE_ROOM_AREA_M2}m²).`,
+          recommendation: pass
+            ? 'No action required.'
+            : `Enlarge the room to at least ${MIN_HABITABLE_ROOM_AREA_M2}m² or reclassify it as a non-habitable space.`,
+          boundingBox: r.boundingBox,
+          measurement: { label: 'Room area', value: r.area, unit: 'm²', limit: MIN_HABITABLE_ROOM_AREA_M2, limitType: 'min' }
+        };
+      })
+  }
+];
+
+/**
+ * Runs every rule against the plan and converts the results into findings. Building
+ * information, when given, selects occupancy- and sprinkler-dependent limits.
+ * Finding IDs are derived from the rule and element IDs, so repeated runs are identical.
+ */
+export const runRuleEngine = (plan: PlanData, building?: BuildingMetadata, rules: ComplianceRule[] = SBC_RULES): ComplianceFinding[] =>
+  rules.flatMap(rule =>
+    rule.evaluate(plan, building).map(result => ({
+      id: `rule-${rule.id}-${result.elementId}`,
+      category: rule.category,
+      description: result.description,
+      reference: rule.reference,
+      status: result.status,
+      severity: result.status === ComplianceStatus.PASS ? FindingSeverity.INFO : rule.severity,
+      lifeSafety: rule.lifeSafety,
+      recommendation: result.recommendation,
+      boundingBox: result.boundingBox,
+      measurement: result.measurement,
+      source: FindingSource.RULE_ENGINE,
+      ruleId: rule.id
+    }))
+  );
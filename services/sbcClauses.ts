@@ -0,0 +1,382 @@
+import { SbcClause } from "../types";
+
+/*
+ * Bundled SBC clause library, used offline by the clause viewer and regulation search.
+ *
+ * Clause text is a plain-language summary for reviewers, written to match the limits the
+ * rule engine checks. The published code governs; bump CLAUSE_LIBRARY_VERSION whenever
+ * clauses are added or reworded so saved reports can tell which library they were read with.
+ */
+export const CLAUSE_LIBRARY_VERSION = '2024.1';
+
+export const SBC_CODE_TITLES: Record<string, string> = {
+  '201': 'SBC 201 General Building Code',
+  '801': 'SBC 801 Fire Code',
+  '1001': 'SBC 1001 Green Construction Code'
+};
+
+export const SBC_CLAUSES: SbcClause[] = [
+  // SBC 201, Chapter 10: Means of Egress
+  {
+    id: 'SBC201-1003',
+    code: '201',
+    number: '1003',
+    title: 'General means of egress',
+    titleAr: 'المتطلبات العامة لوسائل الخروج',
+    text: 'Requirements that apply to every part of the means of egress: ceiling height, protruding objects, floor surfaces, elevation changes and continuity. The means of egress must not be reduced in width or capacity along the direction of travel.'
+  },
+  {
+    id: 'SBC201-1004',
+    code: '201',
+    number: '1004',
+    title: 'Occupant load',
+    titleAr: 'الحمل الإشغالي',
+    text: 'The number of occupants used to design the means of egress is the floor area divided by the occupant load factor for the function of the space, or the actual number of fixed seats. Where a space serves more than one function, the larger load governs.',
+    relatedIds: ['SBC201-1005', 'SBC201-1006']
+  },
+  {
+    id: 'SBC201-1005',
+    code: '201',
+    number: '1005',
+    title: 'Means of egress sizing',
+    titleAr: 'تحديد أبعاد وسائل الخروج',
+    text: 'The capacity of stairways, corridors and doors is set by multiplying the occupant load they serve by the egress width factor. Capacity must be distributed so that the loss of any one exit does not reduce the available capacity below half of the required total.',
+    relatedIds: ['SBC201-1004', 'SBC201-1020.2']
+  },
+  {
+    id: 'SBC201-1006',
+    code: '201',
+    number: '1006',
+    title: 'Number of exits and exit access doorways',
+    titleAr: 'عدد المخارج وأبواب الوصول إلى المخارج',
+    text: 'Sets the minimum number of exits or exit access doorways required from spaces and from each story, based on occupant load, occupancy and common path of egress travel.',
+    relatedIds: ['SBC201-1004', 'SBC201-1007']
+  },
+  {
+    id: 'SBC201-1006.2',
+    code: '201',
+    number: '1006.2',
+    title: 'Egress from spaces',
+    titleAr: 'الخروج من الفراغات',
+    text: 'Rooms and spaces need two exits or exit access doorways where the occupant load or the common path of egress travel exceeds the limits for the occupancy. Otherwise a single exit access doorway is permitted.',
+    parentId: 'SBC201-1006'
+  },
+  {
+    id: 'SBC201-1006.3',
+    code: '201',
+    number: '1006.3',
+    title: 'Egress from stories or occupied roofs',
+    titleAr: 'الخروج من الطوابق أو الأسطح المشغولة',
+    text: 'Each story and occupied roof must have the minimum number of separate and distinct exits or access to exits required for its occupant load.',
+    parentId: 'SBC201-1006'
+  },
+  {
+    id: 'SBC201-1006.3.2',
+    code: '201',
+    number: '1006.3.2',
+    title: 'Minimum number of exits by occupant load',
+    titleAr: 'الحد الأدنى لعدد المخارج حسب الحمل الإشغالي',
+    text: 'Stories with an occupant load of 1 to 49 need at least one exit, 50 to 500 need two, 501 to 1,000 need three, and more than 1,000 need four. Exits must be arranged so that they are remote from each other.',
+    parentId: 'SBC201-1006.3',
+    relatedIds: ['SBC201-1007', 'SBC201-1004']
+  },
+  {
+    id: 'SBC201-1007',
+    code: '201',
+    number: '1007',
+    title: 'Exit and exit access doorway configuration',
+    titleAr: 'ترتيب المخارج وأبواب الوصول إليها',
+    text: 'Where two exits are required, they must be placed a distance apart of at least half the overall diagonal of the area served, or one third where the building is fully sprinklered. Additional exits must be arranged so that a fire blocking one does not block the others.',
+    relatedIds: ['SBC201-1006.3.2']
+  },
+  {
+    id: 'SBC201-1010',
+    code: '201',
+    number: '1010',
+    title: 'Doors, gates and turnstiles',
+    titleAr: 'الأبواب والبوابات والبوابات الدوارة',
+    text: 'Means of egress doors must be readily distinguishable from adjacent construction, must not be concealed by mirrors or curtains, and must meet the size, swing, hardware and locking requirements of this section.'
+  },
+  {
+    id: 'SBC201-1010.1',
+    code: '201',
+    number: '1010.1',
+    title: 'Doors',
+    titleAr: 'الأبواب',
+    text: 'Requirements for egress doors, including their size, landings, thresholds, swing direction and opening force.',
+    parentId: 'SBC201-1010'
+  },
+  {
+    id: 'SBC201-1010.1.1',
+    code: '201',
+    number: '1010.1.1',
+    title: 'Size of doors',
+    titleAr: 'مقاسات الأبواب',
+    text: 'Egress doors must provide a clear opening of at least 900 mm, measured between the face of the door and the stop with the door open at 90 degrees. In pairs of doors, at least one leaf must provide this width. Door openings must be at least 2,030 mm high.',
+    parentId: 'SBC201-1010.1',
+    relatedIds: ['SBC201-1005']
+  },
+  {
+    id: 'SBC201-1010.1.2',
+    code: '201',
+    number: '1010.1.2',
+    title: 'Door swing',
+    titleAr: 'اتجاه فتح الأبواب',
+    text: 'Egress doors must be side-hinged swinging doors. Doors serving a room or area with an occupant load of 50 or more, or a high-hazard occupancy, must swing in the direction of egress travel.',
+    parentId: 'SBC201-1010.1'
+  },
+  {
+    id: 'SBC201-1011',
+    code: '201',
+    number: '1011',
+    title: 'Stairways',
+    titleAr: 'الدرج',
+    text: 'Requirements for stairways serving occupied floors, including width, headroom, riser and tread dimensions, landings and enclosure.',
+    relatedIds: ['SBC201-1023']
+  },
+  {
+    id: 'SBC201-1011.2',
+    code: '201',
+    number: '1011.2',
+    title: 'Stairway width and capacity',
+    titleAr: 'عرض الدرج وسعته',
+    text: 'Stairways must be at least 1,120 mm wide, or 900 mm where they serve an occupant load of less than 50, and must provide the capacity required by the egress sizing rules.',
+    parentId: 'SBC201-1011',
+    relatedIds: ['SBC201-1005']
+  },
+  {
+    id: 'SBC201-1011.5.2',
+    code: '201',
+    number: '1011.5.2',
+    title: 'Riser height and tread depth',
+    titleAr: 'ارتفاع القائمة وعمق النائمة',
+    text: 'Stair riser heights must be between 100 mm and 180 mm and tread depths at least 280 mm. Risers and treads within a flight must be uniform.',
+    parentId: 'SBC201-1011'
+  },
+  {
+    id: 'SBC201-1016',
+    code: '201',
+    number: '1016',
+    title: 'Exit access',
+    titleAr: 'الوصول إلى المخرج',
+    text: 'Egress from a room or space may pass through adjoining rooms only where they are accessory to the area served, are not high-hazard, and provide a discernible path of egress travel to an exit.'
+  },
+  {
+    id: 'SBC201-1017',
+    code: '201',
+    number: '1017',
+    title: 'Exit access travel distance',
+    titleAr: 'مسافة الانتقال إلى المخرج',
+    text: 'Exits must be located so that the distance of travel from any occupied point to the nearest exit does not exceed the limits for the occupancy. Travel distance is measured along the natural and unobstructed path of egress travel.',
+    relatedIds: ['SBC801-903']
+  },
+  {
+    id: 'SBC201-1017.2',
+    code: '201',
+    number: '1017.2',
+    title: 'Limitations',
+    titleAr: 'حدود مسافة الانتقال',
+    text: 'Exit access travel distance must not exceed 60 m in buildings without an automatic sprinkler system, for the common occupancies checked by this application. Longer distances are permitted for some occupancies where the building is fully sprinklered.',
+    parentId: 'SBC201-1017',
+    relatedIds: ['SBC801-903', 'SBC201-1020.4']
+  },
+  {
+    id: 'SBC201-1020',
+    code: '201',
+    number: '1020',
+    title: 'Corridors',
+    titleAr: 'الممرات',
+    text: 'Corridors must be fire-resistance rated where required by occupancy and occupant load, and must meet the width, capacity, dead-end and continuity requirements of this section.',
+    relatedIds: ['SBC201-1017']
+  },
+  {
+    id: 'SBC201-1020.2',
+    code: '201',
+    number: '1020.2',
+    title: 'Corridor width and capacity',
+    titleAr: 'عرض الممر وسعته',
+    text: 'Corridors must be at least 1,120 mm wide, or 900 mm where they serve an occupant load of less than 50, and must provide the capacity required by the egress sizing rules. Doors opening into a corridor must not reduce its required width by more than half.',
+    parentId: 'SBC201-1020',
+    relatedIds: ['SBC201-1005', 'SBC201-1010.1.1']
+  },
+  {
+    id: 'SBC201-1020.4',
+    code: '201',
+    number: '1020.4',
+    title: 'Dead ends',
+    titleAr: 'الممرات المسدودة',
+    text: 'Where more than one exit or exit access doorway is required, the exit access must be arranged so that there are no dead ends in corridors longer than 6 m. Longer dead ends are permitted in some occupancies where the building is fully sprinklered, and where the dead end is less than 2.5 times the least width of the corridor.',
+    parentId: 'SBC201-1020',
+    relatedIds: ['SBC201-1017.2', 'SBC801-903']
+  },
+  {
+    id: 'SBC201-1023',
+    code: '201',
+    number: '1023',
+    title: 'Interior exit stairways and ramps',
+    titleAr: 'الدرج والمنحدرات الداخلية للمخارج',
+    text: 'Interior exit stairways must be enclosed with fire barriers of 2 hours where connecting four stories or more, and 1 hour where connecting fewer. Openings into the enclosure are limited to those needed for egress.',
+    relatedIds: ['SBC201-1011']
+  },
+  // SBC 201, Chapter 11: Accessibility
+  {
+    id: 'SBC201-1109',
+    code: '201',
+    number: '1109',
+    title: 'Other features and facilities',
+    titleAr: 'المرافق والتجهيزات الأخرى',
+    text: 'Building features such as toilet rooms, drinking fountains, kitchens and storage that are provided in accessible spaces must themselves be accessible.'
+  },
+  {
+    id: 'SBC201-1109.2',
+    code: '201',
+    number: '1109.2',
+    title: 'Toilet and bathing facilities',
+    titleAr: 'دورات المياه ومرافق الاستحمام',
+    text: 'Each toilet room and bathing room must be accessible. Where multiple single-user toilet rooms are clustered together, at least half of them must be accessible, with sufficient turning space and clear floor area at fixtures.',
+    parentId: 'SBC201-1109'
+  },
+  // SBC 201, Chapter 12: Interior Environment
+  {
+    id: 'SBC201-1208',
+    code: '201',
+    number: '1208',
+    title: 'Interior space dimensions',
+    titleAr: 'أبعاد الفراغات الداخلية',
+    text: 'Minimum room widths, ceiling heights and floor areas for occupiable and habitable spaces.'
+  },
+  {
+    id: 'SBC201-1208.2',
+    code: '201',
+    number: '1208.2',
+    title: 'Minimum ceiling heights',
+    titleAr: 'الحد الأدنى لارتفاع الأسقف',
+    text: 'Occupiable spaces, habitable spaces and corridors must have a ceiling height of at least 2,300 mm. Bathrooms, toilet rooms, kitchens, storage rooms and laundry rooms may have a ceiling height of 2,130 mm.',
+    parentId: 'SBC201-1208'
+  },
+  {
+    id: 'SBC201-1208.3',
+    code: '201',
+    number: '1208.3',
+    title: 'Room area',
+    titleAr: 'مساحة الغرفة',
+    text: 'Every dwelling unit must have at least one room of 11 m² or more. Other habitable rooms must have a floor area of at least 6.5 m², and no horizontal dimension of less than 2,130 mm. Kitchens are exempt.',
+    parentId: 'SBC201-1208',
+    relatedIds: ['SBC201-1208.2']
+  },
+  // SBC 801: Fire Code
+  {
+    id: 'SBC801-903',
+    code: '801',
+    number: '903',
+    title: 'Automatic sprinkler systems',
+    titleAr: 'أنظمة الرش الآلي',
+    text: 'Sets where automatic sprinkler systems are required and how they are installed. A fully sprinklered building also qualifies for relaxed egress limits, such as longer travel distances and dead ends.',
+    relatedIds: ['SBC201-1017.2', 'SBC201-1020.4']
+  },
+  {
+    id: 'SBC801-903.2',
+    code: '801',
+    number: '903.2',
+    title: 'Where required',
+    titleAr: 'أماكن اشتراط أنظمة الرش',
+    text: 'Automatic sprinkler systems are required in new buildings according to their occupancy, fire area, story count and occupant load, including all high-rise buildings and most assembly, educational, institutional, mercantile and residential occupancies.',
+    parentId: 'SBC801-903'
+  },
+  {
+    id: 'SBC801-903.3',
+    code: '801',
+    number: '903.3',
+    title: 'Installation requirements',
+    titleAr: 'متطلبات تركيب أنظمة الرش',
+    text: 'Sprinkler systems must be designed and installed to the referenced installation standard for the occupancy, with approved water supplies and supervision of control valves.',
+    parentId: 'SBC801-903'
+  },
+  {
+    id: 'SBC801-906',
+    code: '801',
+    number: '906',
+    title: 'Portable fire extinguishers',
+    titleAr: 'طفايات الحريق المحمولة',
+    text: 'Portable fire extinguishers must be provided in most occupancies, selected for the hazard, located in conspicuous positions along normal paths of travel, and within the maximum travel distance for the hazard class.'
+  },
+  {
+    id: 'SBC801-907',
+    code: '801',
+    number: '907',
+    title: 'Fire alarm and detection systems',
+    titleAr: 'أنظمة إنذار وكشف الحريق',
+    text: 'Sets where manual fire alarm systems, automatic detection and occupant notification are required, and how they are installed and maintained.',
+    relatedIds: ['SBC801-903']
+  },
+  {
+    id: 'SBC801-907.2',
+    code: '801',
+    number: '907.2',
+    title: 'Where required in new buildings',
+    titleAr: 'أماكن اشتراط الإنذار في المباني الجديدة',
+    text: 'Fire alarm systems and smoke alarms are required in new buildings according to occupancy and occupant load. Where an automatic sprinkler system is installed, its water flow must activate the occupant notification system.',
+    parentId: 'SBC801-907'
+  },
+  {
+    id: 'SBC801-907.2.11',
+    code: '801',
+    number: '907.2.11',
+    title: 'Single- and multiple-station smoke alarms',
+    titleAr: 'أجهزة إنذار الدخان المفردة والمتعددة',
+    text: 'Listed smoke alarms must be installed in sleeping rooms, outside each sleeping area in the immediate vicinity of bedrooms, and on each story of dwelling units. Where more than one alarm is required in a unit, they must be interconnected so that all sound together.',
+    parentId: 'SBC801-907.2'
+  },
+  {
+    id: 'SBC801-1031',
+    code: '801',
+    number: '1031',
+    title: 'Maintenance of the means of egress',
+    titleAr: 'صيانة وسائل الخروج',
+    text: 'Means of egress must be kept free of obstructions and available for immediate use at all times while the building is occupied. Exit doors must not be locked against egress, and exit signs and egress lighting must be maintained.',
+    relatedIds: ['SBC201-1003']
+  },
+  // SBC 1001: Green Construction Code
+  {
+    id: 'SBC1001-401',
+    code: '1001',
+    number: '401',
+    title: 'Site development and land use',
+    titleAr: 'تطوير الموقع واستخدام الأراضي',
+    text: 'Covers site selection, preservation of natural resources, stormwater management, landscape irrigation and the reduction of heat island effects on the building site.'
+  },
+  {
+    id: 'SBC1001-501',
+    code: '1001',
+    number: '501',
+    title: 'Material resource conservation and efficiency',
+    titleAr: 'الحفاظ على الموارد المادية وكفاءتها',
+    text: 'Covers construction waste management, the use of recycled, salvaged and regional materials, and the storage and collection of recyclables in the finished building.'
+  },
+  {
+    id: 'SBC1001-601',
+    code: '1001',
+    number: '601',
+    title: 'Energy conservation, efficiency and atmospheric quality',
+    titleAr: 'حفظ الطاقة وكفاءتها وجودة الهواء',
+    text: 'Covers building energy performance, metering, the building envelope, mechanical and lighting systems, and the commissioning of energy-using systems.',
+    relatedIds: ['SBC1001-801']
+  },
+  {
+    id: 'SBC1001-701',
+    code: '1001',
+    number: '701',
+    title: 'Water resource conservation, quality and efficiency',
+    titleAr: 'الحفاظ على الموارد المائية وجودتها وكفاءتها',
+    text: 'Covers water-efficient plumbing fixtures and appliances, metering, rainwater and gray water systems, and cooling tower water use.'
+  },
+  {
+    id: 'SBC1001-801',
+    code: '1001',
+    number: '801',
+    title: 'Indoor environmental quality and comfort',
+    titleAr: 'جودة البيئة الداخلية والراحة',
+    text: 'Covers ventilation, indoor air quality during construction and occupancy, low-emitting materials, acoustics and access to daylight.',
+    relatedIds: ['SBC201-1208']
+  }
+];
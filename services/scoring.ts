@@ -0,0 +1,117 @@
+import { AnalysisReport, ComplianceFinding, ComplianceStatus, FindingSeverity, ScoringConfig } from "../types";
+import { severityOf } from "./severity";
+
+export const DEFAULT_SCORING: ScoringConfig = {
+  statusPenalties: {
+    [ComplianceStatus.FAIL]: 10,
+    [ComplianceStatus.WARNING]: 4,
+    [ComplianceStatus.NEEDS_CLARIFICATION]: 1,
+    [ComplianceStatus.PASS]: 0
+  },
+  severityMultipliers: {
+    [FindingSeverity.CRITICAL]: 2,
+    [FindingSeverity.MAJOR]: 1,
+    [FindingSeverity.MINOR]: 0.5,
+    [FindingSeverity.INFO]: 0.25
+  },
+  categoryWeights: {
+    'Fire Safety': 1.5,
+    'Egress': 1.5
+  },
+  defaultCategoryWeight: 1
+};
+
+const STORAGE_KEY = 'codecheck-sa.scoring';
+
+/** The team's default weights for new reports, falling back to DEFAULT_SCORING. */
+export const loadScoringConfig = (): ScoringConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SCORING;
+    const parsed = JSON.parse(stored) as Partial<ScoringConfig>;
+    // Merge so weights added in later releases still get their defaults
+    return {
+      statusPenalties: { ...DEFAULT_SCORING.statusPenalties, ...parsed.statusPenalties },
+      severityMultipliers: { ...DEFAULT_SCORING.severityMultipliers, ...parsed.severityMultipliers },
+      categoryWeights: parsed.categoryWeights || DEFAULT_SCORING.categoryWeights,
+      defaultCategoryWeight: parsed.defaultCategoryWeight ?? DEFAULT_SCORING.defaultCategoryWeight
+    };
+  } catch {
+    return DEFAULT_SCORING;
+  }
+};
+
+export const saveScoringConfig = (config: ScoringConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+export interface ScoreDeduction {
+  finding: ComplianceFinding;
+  severity: FindingSeverity;
+  statusPenalty: number;
+  severityMultiplier: number;
+  categoryWeight: number;
+  points: number;
+}
+
+export interface CategoryDeduction {
+  category: string;
+  weight: number;
+  count: number; // Findings that cost points
+  points: number;
+}
+
+export interface ScoreBreakdown {
+  score: number;
+  totalDeduction: number;
+  deductions: ScoreDeduction[]; // Only findings that cost points, largest first
+  byCategory: CategoryDeduction[]; // Largest first
+}
+
+export const categoryWeightOf = (category: string, config: ScoringConfig) =>
+  config.categoryWeights[category] ?? config.defaultCategoryWeight;
+
+/**
+ * Scores findings by deducting points from 100. Each finding costs its status penalty,
+ * scaled by its severity and category; the result is clamped to 0-100 and rounded.
+ */
+export const computeScore = (findings: ComplianceFinding[], config: ScoringConfig = DEFAULT_SCORING): ScoreBreakdown => {
+  const deductions: ScoreDeduction[] = findings
+    .map(finding => {
+      const severity = severityOf(finding);
+      const statusPenalty = config.statusPenalties[finding.status] ?? 0;
+      const severityMultiplier = config.severityMultipliers[severity] ?? 1;
+      const categoryWeight = categoryWeightOf(finding.category || 'General', config);
+      return { finding, severity, statusPenalty, severityMultiplier, categoryWeight, points: statusPenalty * severityMultiplier * categoryWeight };
+    })
+    .filter(d => d.points > 0)
+    .sort((a, b) => b.points - a.points);
+
+  const categories = new Map<string, CategoryDeduction>();
+  deductions.forEach(d => {
+    const category = d.finding.category || 'General';
+    const entry = categories.get(category) || { category, weight: d.categoryWeight, count: 0, points: 0 };
+    entry.count++;
+    entry.points += d.points;
+    categories.set(category, entry);
+  });
+
+  const totalDeduction = deductions.reduce((sum, d) => sum + d.points, 0);
+  return {
+    score: Math.round(Math.min(100, Math.max(0, 100 - totalDeduction))),
+    totalDeduction,
+    deductions,
+    byCategory: Array.from(categories.values()).sort((a, b) => b.points - a.points)
+  };
+};
+
+/**
+ * Recomputes overallScore from the report's findings. The model's own score is moved to
+ * modelScore the first time a report is scored locally.
+ */
+export const scoreReport = (report: AnalysisReport, config: ScoringConfig = report.scoringConfig || loadScoringConfig()): AnalysisReport => ({
+  ...report,
+  overallScore: computeScore(report.findings, config).score,
+  modelScore: report.scoringConfig ? report.modelScore : report.modelScore ?? report.overallScore,
+  scoringConfig: config
+});
@@ -0,0 +1,64 @@
+import { ComplianceFinding, ComplianceStatus, FindingSeverity } from "../types";
+
+export const SEVERITY_LABELS: Record<FindingSeverity, string> = {
+  [FindingSeverity.CRITICAL]: 'Critical',
+  [FindingSeverity.MAJOR]: 'Major',
+  [FindingSeverity.MINOR]: 'Minor',
+  [FindingSeverity.INFO]: 'Info'
+};
+
+// Most severe first
+export const SEVERITY_ORDER: FindingSeverity[] = [
+  FindingSeverity.CRITICAL,
+  FindingSeverity.MAJOR,
+  FindingSeverity.MINOR,
+  FindingSeverity.INFO
+];
+
+// Overlay stroke colors; passing findings stay green whatever their severity
+export const SEVERITY_COLORS: Record<FindingSeverity, string> = {
+  [FindingSeverity.CRITICAL]: '#b91c1c',
+  [FindingSeverity.MAJOR]: '#ef4444',
+  [FindingSeverity.MINOR]: '#f59e0b',
+  [FindingSeverity.INFO]: '#3b82f6'
+};
+
+/**
+ * The finding's severity. Findings from before severities existed get one from their
+ * status, with life-safety FAILs treated as critical.
+ */
+export const severityOf = (finding: ComplianceFinding): FindingSeverity => {
+  if (finding.severity) return finding.severity;
+  switch (finding.status) {
+    case ComplianceStatus.FAIL: return finding.lifeSafety ? FindingSeverity.CRITICAL : FindingSeverity.MAJOR;
+    case ComplianceStatus.WARNING: return FindingSeverity.MINOR;
+    default: return FindingSeverity.INFO;
+  }
+};
+
+export const severityRank = (finding: ComplianceFinding) => SEVERITY_ORDER.indexOf(severityOf(finding));
+
+/** Open critical problems: critical findings, and any life-safety FAIL. */
+export const isCriticalIssue = (finding: ComplianceFinding) =>
+  finding.status !== ComplianceStatus.PASS &&
+  (severityOf(finding) === FindingSeverity.CRITICAL || (finding.lifeSafety === true && finding.status === ComplianceStatus.FAIL));
+
+export const findingColor = (finding: ComplianceFinding) =>
+  finding.status === ComplianceStatus.PASS ? '#22c55e' : SEVERITY_COLORS[severityOf(finding)];
+
+const STATUS_RANK: Record<ComplianceStatus, number> = {
+  [ComplianceStatus.FAIL]: 0,
+  [ComplianceStatus.WARNING]: 1,
+  [ComplianceStatus.NEEDS_CLARIFICATION]: 2,
+  [ComplianceStatus.PASS]: 3
+};
+
+/** Sort order for finding lists: open findings by severity, then by status; passing findings last. */
+export const compareBySeverity = (a: ComplianceFinding, b: ComplianceFinding) => {
+  const aPass = a.status === ComplianceStatus.PASS ? 1 : 0;
+  const bPass = b.status === ComplianceStatus.PASS ? 1 : 0;
+  return (aPass - bPass)
+    || (severityRank(a) - severityRank(b))
+    || (Number(!!b.lifeSafety) - Number(!!a.lifeSafety))
+    || (STATUS_RANK[a.status] - STATUS_RANK[b.status]);
+};
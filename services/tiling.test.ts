@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { ComplianceFinding, ComplianceStatus } from "../types";
+import { boxIoU, mapBoxFromTile, mergeOverlappingFindings } from "./tiling";
+
+const finding = (id: string, overrides: Partial<ComplianceFinding> = {}): ComplianceFinding => ({
+  id,
+  category: 'Egress',
+  description: 'Exit door D1 clear width is below the minimum.',
+  reference: 'SBC 201 - 1010.1.1',
+  status: ComplianceStatus.FAIL,
+  recommendation: 'Widen the door.',
+  boundingBox: [0.1, 0.1, 0.3, 0.3],
+  ...overrides
+});
+
+describe("boxIoU", () => {
+  it("is 1 for identical boxes and 0 for disjoint ones", () => {
+    expect(boxIoU([0, 0, 0.5, 0.5], [0, 0, 0.5, 0.5])).toBe(1);
+    expect(boxIoU([0, 0, 0.2, 0.2], [0.5, 0.5, 0.7, 0.7])).toBe(0);
+  });
+
+  it("divides the overlap by the union", () => {
+    expect(boxIoU([0, 0, 0.2, 0.2], [0, 0.1, 0.2, 0.3])).toBeCloseTo(1 / 3);
+  });
+});
+
+describe("mapBoxFromTile", () => {
+  it("maps tile coordinates onto the sheet", () => {
+    const box = mapBoxFromTile([0, 0, 0.5, 0.5], [0.5, 0.5, 1, 1]);
+    box.forEach((v, i) => expect(v).toBeCloseTo([0.5, 0.5, 0.75, 0.75][i]));
+  });
+});
+
+describe("mergeOverlappingFindings", () => {
+  it("merges a tile duplicate into the whole-sheet finding and grows its box", () => {
+    const merged = mergeOverlappingFindings([
+      [finding('f1')],
+      [finding('t11-f1', { boundingBox: [0.12, 0.12, 0.35, 0.35], reference: 'SBC201 Section 1010.1.1' })]
+    ]);
+    expect(merged.map(f => f.id)).toEqual(['f1']);
+    expect(merged[0].boundingBox).toEqual([0.1, 0.1, 0.35, 0.35]);
+  });
+
+  it("never merges findings of the same pass", () => {
+    const merged = mergeOverlappingFindings([[finding('f1'), finding('f2')]]);
+    expect(merged).toHaveLength(2);
+  });
+
+  it("merges at most one finding of each pass into an earlier one", () => {
+    const merged = mergeOverlappingFindings([[finding('f1')], [finding('t11-f1'), finding('t11-f2')]]);
+    expect(merged.map(f => f.id)).toEqual(['f1', 't11-f2']);
+  });
+
+  it("keeps overlapping findings that cite different clauses", () => {
+    const merged = mergeOverlappingFindings([[finding('f1')], [finding('t11-f1', { reference: 'SBC 201 - 1010.1.2' })]]);
+    expect(merged).toHaveLength(2);
+  });
+
+  it("keeps overlapping findings with unrelated descriptions", () => {
+    const merged = mergeOverlappingFindings([
+      [finding('f1')],
+      [finding('t11-f1', { description: 'Panic hardware missing on the assembly exit.' })]
+    ]);
+    expect(merged).toHaveLength(2);
+  });
+
+  it("keeps findings without a box", () => {
+    const merged = mergeOverlappingFindings([[finding('f1', { boundingBox: undefined })], [finding('t11-f1', { boundingBox: undefined })]]);
+    expect(merged).toHaveLength(2);
+  });
+});
@@ -0,0 +1,177 @@
+import { ComplianceFinding, PlanData, TilingOptions } from "../types";
+import { ImageDecodeError, toDataUrl } from "./imagePreprocessing";
+import { parseReference } from "./referenceParser";
+
+export interface DrawingTile {
+  row: number;
+  col: number;
+  label: string; // e.g., "Tile 2-3"
+  region: number[]; // [ymin, xmin, ymax, xmax] of the tile on the sheet, normalized 0-1
+  imageBase64: string;
+}
+
+export const DEFAULT_TILING: TilingOptions = { rows: 2, cols: 2, overlap: 0.15 };
+
+// Findings from neighbouring tiles that overlap at least this much are treated as the same issue
+export const DUPLICATE_IOU_THRESHOLD = 0.3;
+// Share of description words two passes must have in common to describe the same issue
+export const DUPLICATE_DESCRIPTION_THRESHOLD = 0.5;
+
+const loadImage = (base64: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new ImageDecodeError("Could not decode the drawing image for tiling."));
+  img.src = toDataUrl(base64);
+});
+
+// Start offsets and size of tiles along one axis, normalized 0-1
+const axisSpans = (count: number, overlap: number) => {
+  const size = 1 / (count - (count - 1) * overlap);
+  return Array.from({ length: count }, (_, i) => {
+    const start = Math.min(i * size * (1 - overlap), 1 - size);
+    return [start, start + size];
+  });
+};
+
+/**
+ * Cuts a sheet image into an overlapping grid of tiles so small text and door
+ * swings keep their resolution when sent to the model.
+ */
+export const splitIntoTiles = async (imageBase64: string, options: TilingOptions = DEFAULT_TILING): Promise<DrawingTile[]> => {
+  const img = await loadImage(imageBase64);
+  const rowSpans = axisSpans(options.rows, options.overlap);
+  const colSpans = axisSpans(options.cols, options.overlap);
+  const tiles: DrawingTile[] = [];
+
+  rowSpans.forEach(([ymin, ymax], row) => {
+    colSpans.forEach(([xmin, xmax], col) => {
+      const sx = Math.floor(xmin * img.naturalWidth);
+      const sy = Math.floor(ymin * img.naturalHeight);
+      const sw = Math.ceil((xmax - xmin) * img.naturalWidth);
+      const sh = Math.ceil((ymax - ymin) * img.naturalHeight);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = sw;
+      canvas.height = sh;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Canvas rendering is not available in this browser.");
+      ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh);
+
+      tiles.push({
+        row,
+        col,
+        label: `Tile ${row + 1}-${col + 1}`,
+        region: [ymin, xmin, ymax, xmax],
+        imageBase64: canvas.toDataURL('image/jpeg', 0.92).split(',')[1]
+      });
+    });
+  });
+  return tiles;
+};
+
+/** Maps a box in tile-normalized coordinates back onto the full sheet. */
+export const mapBoxFromTile = (box: number[], region: number[]): number[] => {
+  const [rymin, rxmin, rymax, rxmax] = region;
+  const h = rymax - rymin;
+  const w = rxmax - rxmin;
+  return [rymin + box[0] * h, rxmin + box[1] * w, rymin + box[2] * h, rxmin + box[3] * w];
+};
+
+export const boxIoU = (a: number[], b: number[]): number => {
+  const iy = Math.max(0, Math.min(a[2], b[2]) - Math.max(a[0], b[0]));
+  const ix = Math.max(0, Math.min(a[3], b[3]) - Math.max(a[1], b[1]));
+  const intersection = iy * ix;
+  const area = (box: number[]) => (box[2] - box[0]) * (box[3] - box[1]);
+  const union = area(a) + area(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+const unionBox = (a: number[], b: number[]) => [
+  Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])
+];
+
+// "SBC 201 - 1020.4" and "SBC201 Section 1020.4" are the same clause
+const referenceKey = (reference: string) => parseReference(reference)?.id ?? reference.trim().toLowerCase();
+
+const descriptionWords = (text: string) => new Set<string>(text.toLowerCase().match(/[a-z0-9.]+/g) ?? []);
+
+const descriptionSimilarity = (a: string, b: string) => {
+  const wa = descriptionWords(a);
+  const wb = descriptionWords(b);
+  const shared = [...wa].filter(w => wb.has(w)).length;
+  const total = new Set<string>([...wa, ...wb]).size;
+  return total > 0 ? shared / total : 0;
+};
+
+/**
+ * Collapses findings that several analysis passes (whole sheet, then each tile) report for
+ * the same issue: same status and clause, similar description and overlapping boxes.
+ * Findings of one pass are never merged with each other, so distinct issues the model
+ * listed separately survive. The earliest pass wins; its box grows to cover the duplicates.
+ * Findings without a box are never merged.
+ */
+export const mergeOverlappingFindings = (
+  passes: ComplianceFinding[][],
+  threshold = DUPLICATE_IOU_THRESHOLD
+): ComplianceFinding[] => {
+  const merged: { finding: ComplianceFinding; passes: Set<number> }[] = [];
+  passes.forEach((findings, pass) => {
+    for (const finding of findings) {
+      const duplicate = finding.boundingBox && merged.find(m =>
+        !m.passes.has(pass) &&
+        m.finding.boundingBox &&
+        m.finding.status === finding.status &&
+        referenceKey(m.finding.reference) === referenceKey(finding.reference) &&
+        descriptionSimilarity(m.finding.description, finding.description) >= DUPLICATE_DESCRIPTION_THRESHOLD &&
+        boxIoU(m.finding.boundingBox, finding.boundingBox!) >= threshold
+      );
+      if (duplicate) {
+        duplicate.finding.boundingBox = unionBox(duplicate.finding.boundingBox!, finding.boundingBox!);
+        duplicate.passes.add(pass);
+      } else {
+        merged.push({ finding: { ...finding }, passes: new Set<number>([pass]) });
+      }
+    }
+  });
+  return merged.map(m => m.finding);
+};
+
+/**
+ * Combines plan data measured on several tiles. Elements of the same kind whose boxes
+ * overlap are treated as the same element; the first measurement is kept.
+ */
+export const mergePlanData = (plans: PlanData[], threshold = DUPLICATE_IOU_THRESHOLD): PlanData => {
+  const dedupe = <T extends { boundingBox?: number[] }>(items: T[]): T[] => {
+    const kept: T[] = [];
+    for (const item of items) {
+      const seen = item.boundingBox && kept.some(k => k.boundingBox && boxIoU(k.boundingBox, item.boundingBox!) >= threshold);
+      if (!seen) kept.push(item);
+    }
+    return kept;
+  };
+  return {
+    rooms: dedupe(plans.flatMap(p => p.rooms)),
+    doors: dedupe(plans.flatMap(p => p.doors)),
+    corridors: dedupe(plans.flatMap(p => p.corridors)),
+    exits: dedupe(plans.flatMap(p => p.exits)),
+    // The first plan is the whole-sheet pass; tiles only see part of the floor
+    occupantLoad: plans.find(p => p.occupantLoad !== undefined)?.occupantLoad
+  };
+};
+
+/** Moves a tile's plan data onto the sheet: boxes are remapped and IDs prefixed to stay unique. */
+export const mapPlanFromTile = (plan: PlanData, region: number[], idPrefix: string): PlanData => {
+  const move = <T extends { id: string; boundingBox?: number[] }>(items: T[]): T[] =>
+    items.map(item => ({
+      ...item,
+      id: `${idPrefix}-${item.id}`,
+      boundingBox: item.boundingBox && mapBoxFromTile(item.boundingBox, region)
+    }));
+  return {
+    rooms: move(plan.rooms),
+    doors: move(plan.doors),
+    corridors: move(plan.corridors),
+    exits: move(plan.exits),
+    occupantLoad: plan.occupantLoad
+  };
+};
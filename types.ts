@@ -5,31 +5,387 @@ export enum ComplianceStatus {
   NEEDS_CLARIFICATION = 'NEEDS_CLARIFICATION'
 }
 
+export enum FindingSource {
+  AI = 'AI',
+  RULE_ENGINE = 'RULE_ENGINE',
+  REVIEWER = 'REVIEWER' // Drawn and written by a human reviewer
+}
+
+export enum FindingSeverity {
+  CRITICAL = 'CRITICAL',
+  MAJOR = 'MAJOR',
+  MINOR = 'MINOR',
+  INFO = 'INFO'
+}
+
+export interface MeasuredValue {
+  label: string; // e.g., "Dead-end corridor"
+  value: number;
+  unit: string; // "m", "mm" or "m²"
+  limit?: number; // Code limit in the same unit
+  limitType?: 'max' | 'min';
+}
+
 export interface ComplianceFinding {
   id: string;
   category: string; // e.g., "Fire Safety", "Dimensions", "Accessibility"
   description: string;
-  reference: string; // e.g., "SBC 201 - 10.4.1"
+  reference: string; // e.g., "SBC 201 - 1020.4"; parsed by services/referenceParser
   status: ComplianceStatus;
+  severity?: FindingSeverity; // Derived from the status when omitted (older reports)
+  lifeSafety?: boolean; // Affects occupant safety: egress, fire separation, alarms and the like
   recommendation: string;
   location?: string; // e.g., "Sheet A-101, Grid 4-F"
   boundingBox?: number[]; // [ymin, xmin, ymax, xmax] normalized 0-1
+  sheetIndex?: number; // Index into AnalysisReport.sheets; omitted for single-image reports
+  source?: FindingSource; // Defaults to AI when omitted
+  ruleId?: string; // Set when source is RULE_ENGINE
+  createdBy?: string; // Set when source is REVIEWER
+  createdAt?: string;
+  measurement?: MeasuredValue;
+  evidenceIds?: string[]; // DrawingMeasurement IDs attached by a reviewer as evidence
+  review?: FindingReview; // Omitted until someone acts on the finding
+  corrections?: Partial<Record<CorrectableField, FieldCorrection>>; // Fields a reviewer changed after analysis
+}
+
+// One clause of the bundled SBC library (services/sbcClauses.ts)
+export interface SbcClause {
+  id: string; // e.g. "SBC201-1020.4"
+  code: string; // "201", "801" or "1001"
+  number: string; // Section number within the code, e.g. "1020.4"
+  title: string;
+  titleAr?: string;
+  text: string;
+  parentId?: string; // Enclosing section, when it is in the library
+  relatedIds?: string[]; // Clauses the text refers to
+}
+
+// Finding fields a reviewer may correct by hand
+export type CorrectableField = 'category' | 'description' | 'reference' | 'status' | 'severity' | 'lifeSafety' | 'recommendation' | 'boundingBox';
+
+export interface FieldCorrection {
+  original: ComplianceFinding[CorrectableField]; // Value produced by the analysis, before the first edit
+  editedBy: string;
+  editedAt: string; // Latest edit
+}
+
+// What the team has done about a finding, independent of the model's ComplianceStatus
+export enum ReviewState {
+  OPEN = 'OPEN',
+  ACKNOWLEDGED = 'ACKNOWLEDGED',
+  IN_PROGRESS = 'IN_PROGRESS',
+  RESOLVED = 'RESOLVED',
+  WAIVED = 'WAIVED'
+}
+
+export interface FindingComment {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface FindingReview {
+  state: ReviewState;
+  assignee?: string;
+  waiverJustification?: string; // Required while the state is WAIVED
+  comments: FindingComment[];
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+// Structured plan data extracted from a drawing. Widths are in mm, lengths in m, areas in m².
+export interface PlanRoom {
+  id: string;
+  name: string;
+  area: number;
+  isHabitable?: boolean;
+  boundingBox?: number[];
+}
+
+export interface PlanDoor {
+  id: string;
+  clearWidth: number;
+  isExitDoor?: boolean;
+  boundingBox?: number[];
+}
+
+export interface PlanCorridor {
+  id: string;
+  width: number;
+  length: number;
+  deadEndLength?: number; // Length of the dead-end portion, if any
+  boundingBox?: number[];
+}
+
+export interface PlanExit {
+  id: string;
+  width: number;
+  travelDistance?: number; // Longest exit access travel distance served by this exit
+  boundingBox?: number[];
+}
+
+export interface PlanData {
+  rooms: PlanRoom[];
+  doors: PlanDoor[];
+  corridors: PlanCorridor[];
+  exits: PlanExit[];
+  occupantLoad?: number;
+}
+
+export interface VectorText {
+  text: string;
+  layer: string;
+  position: number[]; // [y, x] normalized 0-1 on the rendered sheet
+}
+
+export interface VectorDimension {
+  value: number; // Measured value in drawing units
+  label: string; // Displayed text, e.g., "900" or an override like "1.20 CLR"
+  layer: string;
+  position: number[]; // [y, x] normalized 0-1 on the rendered sheet
+}
+
+export interface VectorShape {
+  layer: string;
+  area: number; // In drawing units squared
+  boundingBox: number[]; // [ymin, xmin, ymax, xmax] normalized 0-1
+}
+
+export interface DrawingVectorData {
+  units: string; // e.g., "mm", "m", "unitless"
+  extents: { width: number; height: number }; // In drawing units
+  layers: string[];
+  entityCounts: Record<string, number>;
+  texts: VectorText[];
+  dimensions: VectorDimension[];
+  closedShapes: VectorShape[]; // Closed polylines, typically room and space outlines
+}
+
+export interface DrawingSheet {
+  index: number; // 0-based position within the drawing set
+  label: string; // e.g., "Sheet 2"
+  imageBase64: string;
+  vectorData?: DrawingVectorData; // Present when the sheet was rendered from a CAD (DXF) source
+  metersPerPixel?: number; // Known real-world scale, e.g., from DXF units
+  paperMmPerPixel?: number; // Printed size of one pixel (PDF sheets), used to apply a drawing scale like 1:100
+  planData?: PlanData; // Filled in once the sheet has been analyzed
+}
+
+export enum CalibrationMethod {
+  TWO_POINT = 'TWO_POINT',
+  SHEET_SCALE = 'SHEET_SCALE',
+  CAD_UNITS = 'CAD_UNITS'
+}
+
+export interface SheetCalibration {
+  sheetIndex: number;
+  method: CalibrationMethod;
+  metersPerPixel: number;
+  imageWidth: number; // Pixel size of the sheet image the calibration applies to
+  imageHeight: number;
+  description: string; // e.g., "1:100 at 150 DPI" or "Reference 12.00 m"
+}
+
+export enum MeasurementKind {
+  DISTANCE = 'DISTANCE',
+  POLYLINE = 'POLYLINE',
+  AREA = 'AREA'
+}
+
+// A reviewer measurement. Only the points are stored; lengths and areas are derived from
+// the sheet calibration so they stay correct if the sheet is recalibrated.
+export interface DrawingMeasurement {
+  id: string;
+  sheetIndex: number;
+  kind: MeasurementKind;
+  points: number[][]; // Normalized [y, x] vertices; AREA polygons are implicitly closed
+  label?: string;
+  createdAt: string;
+}
+
+// A correction applied to model output before it reached the report
+export interface ReportDiagnostic {
+  findingId?: string; // Omitted for report-level corrections
+  field: string;
+  message: string;
+}
+
+// Points deducted from 100 for each finding: statusPenalty × severityMultiplier × categoryWeight
+export interface ScoringConfig {
+  statusPenalties: Record<ComplianceStatus, number>;
+  severityMultipliers: Record<FindingSeverity, number>;
+  categoryWeights: Record<string, number>; // Categories not listed use defaultCategoryWeight
+  defaultCategoryWeight: number;
 }
 
 export interface AnalysisReport {
-  overallScore: number;
+  id?: string; // Assigned when the report is saved to scan history
+  projectId?: string;
+  drawingId?: string;
+  revisionId?: string;
+  revisionLabel?: string; // e.g., "Rev03"
+  overallScore: number; // Computed locally from the findings with scoringConfig
+  modelScore?: number; // Score the model suggested; kept for reference only
+  scoringConfig?: ScoringConfig; // Missing on reports scored by the model before local scoring
+  building?: BuildingMetadata; // As entered at upload; rule thresholds depend on it
   scanDate: string;
   fileName: string;
   findings: ComplianceFinding[];
   summary: string;
   imageBase64?: string; // Data URL or Base64 string for visualization
+  sheets?: DrawingSheet[]; // Present when the upload was a multi-page drawing set
+  planData?: PlanData; // Single-sheet reports; multi-sheet reports keep plan data on each sheet
+  diagnostics?: ReportDiagnostic[];
+  calibrations?: SheetCalibration[]; // At most one per sheet
+  measurements?: DrawingMeasurement[];
+  preprocessingSteps?: string[]; // Cleanup applied to the image sent for analysis, e.g. "Deskewed 1.5°"
+}
+
+// Lightweight listing entry for scan history; the full report (with images) is loaded on demand
+export interface ReportSummary {
+  id: string;
+  fileName: string;
+  scanDate: string;
+  overallScore: number;
+  findingCount: number;
+  failCount: number;
+  warningCount: number;
+  passCount?: number; // The fields below are missing on summaries saved before dashboard statistics
+  openFailCount?: number; // FAIL findings not yet resolved or waived
+  pendingReviewCount?: number; // Non-PASS findings not yet resolved or waived
+  criticalCount?: number; // Unresolved critical or life-safety FAIL findings
+  openFailsByCategory?: Record<string, number>;
+  citedClauses?: Record<string, number>; // Canonical clause ID → findings citing it
+  projectId?: string;
+  drawingId?: string;
+  revisionId?: string;
+  revisionLabel?: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  location?: string; // e.g., "Riyadh, Al-Malqa"
+  createdAt: string;
+}
+
+// One sheet or model within a project, e.g., "A-101 Ground Floor Plan"
+export interface Drawing {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: string;
 }
 
+// One analyzed upload of a drawing
+export interface Revision {
+  id: string;
+  projectId: string;
+  drawingId: string;
+  number: number; // 1-based, increasing per drawing
+  label: string; // e.g., "Rev03"
+  reportId: string;
+  fileName: string;
+  uploadedAt: string;
+}
+
+// Where a new upload is filed; new projects and drawings are created when the analysis starts
+export interface UploadTarget {
+  projectId?: string; // Existing project; otherwise newProjectName is created
+  newProjectName?: string;
+  drawingId?: string; // Existing drawing; otherwise a new one named newDrawingName
+  newDrawingName?: string; // Defaults to the uploaded file name
+  revisionLabel?: string; // Defaults to the next "RevNN"
+}
+
+export interface TilingOptions {
+  rows: number;
+  cols: number;
+  overlap: number; // Fraction of a tile shared with its neighbour, 0-0.5
+}
+
+// Cleanup for scanned raster drawings; CAD-rendered sheets are never preprocessed
+export interface PreprocessingOptions {
+  deskew?: boolean;
+  binarize?: boolean;
+  enhanceContrast?: boolean;
+  cropMargins?: boolean;
+  maxDimension?: number; // Longest side in pixels after downsizing; omit to keep full resolution
+}
+
+export interface AnalysisOptions {
+  tiling?: TilingOptions; // Analyze overlapping tiles in addition to the whole sheet
+  preprocessing?: PreprocessingOptions;
+  building?: BuildingMetadata;
+}
+
+// SBC 201 Chapter 3 use and occupancy classification
+export enum OccupancyGroup {
+  ASSEMBLY = 'A',
+  BUSINESS = 'B',
+  EDUCATIONAL = 'E',
+  FACTORY = 'F',
+  HIGH_HAZARD = 'H',
+  INSTITUTIONAL = 'I',
+  MERCANTILE = 'M',
+  RESIDENTIAL = 'R',
+  STORAGE = 'S',
+  UTILITY = 'U'
+}
+
+// SBC 201 Chapter 6 types of construction
+export enum ConstructionType {
+  IA = 'IA',
+  IB = 'IB',
+  IIA = 'IIA',
+  IIB = 'IIB',
+  IIIA = 'IIIA',
+  IIIB = 'IIIB',
+  IV = 'IV',
+  VA = 'VA',
+  VB = 'VB'
+}
+
+// What the drawing alone cannot tell the analysis; every field is optional
+export interface BuildingMetadata {
+  occupancyGroup?: OccupancyGroup;
+  occupancySubgroup?: number; // e.g. 2 for H-2; only H and I sub-groups change rule limits
+  buildingHeight?: number; // m above grade
+  storyCount?: number;
+  grossArea?: number; // m²
+  sprinklered?: boolean; // Fully protected by an automatic sprinkler system
+  fireAlarm?: boolean; // Fire alarm and detection system installed
+  constructionType?: ConstructionType;
+}
+
+export enum AnalysisErrorKind {
+  NETWORK = 'NETWORK',
+  QUOTA = 'QUOTA',
+  INVALID_IMAGE = 'INVALID_IMAGE',
+  PARSE = 'PARSE',
+  UNKNOWN = 'UNKNOWN'
+}
+
+export interface AnalysisError {
+  kind: AnalysisErrorKind;
+  message: string;
+  retryable: boolean;
+  attempts: number; // How many times the request was tried before giving up
+  sheetLabel?: string; // Which sheet failed, for multi-sheet sets
+}
+
+export type AnalysisOutcome =
+  | { ok: true; report: AnalysisReport }
+  | { ok: false; error: AnalysisError };
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
+  sourceIds?: string[]; // Clauses retrieved for the question and given to the model
+  isGrounded?: boolean; // Set on answers; false when no retrieved clause is cited
 }
 
-export type ViewState = 'landing' | 'login' | 'signup' | 'dashboard' | 'upload' | 'report' | 'chat';
\ No newline at end of file
+export type ViewState = 'landing' | 'login' | 'signup' | 'dashboard' | 'upload' | 'report' | 'history' | 'projects' | 'project' | 'diff' | 'chat';
\ No newline at end of file